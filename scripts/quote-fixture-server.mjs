@@ -0,0 +1,58 @@
+// Serves Brapi-shaped quotes from scripts/fixtures/quotes.json so the app can
+// run offline with fixed prices. Point the Brapi provider at it with
+// VITE_BRAPI_URL=http://localhost:8787 (or QUOTE_FIXTURE_PORT).
+import { readFileSync } from "node:fs";
+import { createServer } from "node:http";
+
+const port = Number(process.env.QUOTE_FIXTURE_PORT || 8787);
+const prices = JSON.parse(readFileSync(new URL("./fixtures/quotes.json", import.meta.url), "utf8"));
+const marketTime = "2025-01-02T18:00:00.000Z";
+
+// Days covered by each history range Brapi accepts
+const RANGE_DAYS = { "5d": 5, "1mo": 31, "3mo": 92, "6mo": 183, "1y": 366, "2y": 731, "5y": 1827, "10y": 3653, max: 3653 };
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+// Weekday bars at the fixture price, ending today
+const historyFor = (price, range) => {
+  const bars = [];
+  const today = Math.floor(Date.now() / DAY_MS) * DAY_MS;
+  for (let time = today - (RANGE_DAYS[range] || 31) * DAY_MS; time <= today; time += DAY_MS) {
+    const weekday = new Date(time).getUTCDay();
+    if (weekday === 0 || weekday === 6) continue;
+    bars.push({ date: time / 1000, open: price, high: price, low: price, close: price, adjustedClose: price, volume: 0 });
+  }
+  return bars;
+};
+
+const send = (response, status, body) => {
+  response.writeHead(status, {
+    "Content-Type": "application/json",
+    "Access-Control-Allow-Origin": "*",
+  });
+  response.end(JSON.stringify(body));
+};
+
+createServer((request, response) => {
+  const url = new URL(request.url, "http://localhost");
+  const match = url.pathname.match(/^\/api\/quote\/(.+)$/);
+  const range = url.searchParams.get("range");
+  if (!match) return send(response, 404, { error: true, message: "Rota não encontrada" });
+
+  const results = decodeURIComponent(match[1])
+    .split(",")
+    .map(ticker => ticker.trim().toUpperCase())
+    .filter(ticker => ticker in prices)
+    .map(ticker => ({
+      symbol: ticker,
+      currency: "BRL",
+      regularMarketPrice: prices[ticker],
+      regularMarketTime: marketTime,
+      ...(range && { historicalDataPrice: historyFor(prices[ticker], range) }),
+    }));
+
+  // Like Brapi, a request where no ticker is known fails as a whole
+  if (results.length === 0) return send(response, 404, { error: true, message: "Nenhum ativo encontrado" });
+  send(response, 200, { results, requestedAt: new Date().toISOString() });
+}).listen(port, () => {
+  console.log(`Cotações de teste em http://localhost:${port}/api/quote/:tickers`);
+});
@@ -0,0 +1,74 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import AssetClassSelect from "@/components/AssetClassSelect";
+import { Portfolio, resolveAssetClass } from "@/lib/portfolio";
+
+interface AssetClassListProps {
+  portfolio: Portfolio;
+  onAssetsChange?: () => void;
+}
+
+const AssetClassList = ({ portfolio, onAssetsChange }: AssetClassListProps) => {
+  // Every ticker that was traded, including closed positions whose sales still count in the tax report
+  const openTickers = new Set(portfolio.positions.map(position => position.stockCode));
+  const tickers = [...new Set([
+    ...openTickers,
+    ...portfolio.closedPositions.map(position => position.stockCode),
+  ])].sort();
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Classes dos Ativos</CardTitle>
+        <CardDescription>
+          A classe define a faixa de isenção e a alíquota de cada venda no relatório de IR. Corrija aqui a classe
+          deduzida pelo código, inclusive de ativos que você não possui mais
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {tickers.length === 0 ? (
+          <p className="text-muted-foreground text-center py-8">
+            Nenhum ativo negociado ainda
+          </p>
+        ) : (
+          <div className="rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Ativo</TableHead>
+                  <TableHead>Situação</TableHead>
+                  <TableHead>Classe</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {tickers.map((ticker) => (
+                  <TableRow key={ticker}>
+                    <TableCell className="font-semibold">
+                      <div className="flex items-center gap-2">
+                        {ticker}
+                        {!portfolio.assetClasses[ticker] && <Badge variant="outline">Automática</Badge>}
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-muted-foreground">
+                      {openTickers.has(ticker) ? "Em carteira" : "Encerrado"}
+                    </TableCell>
+                    <TableCell>
+                      <AssetClassSelect
+                        ticker={ticker}
+                        value={resolveAssetClass(ticker, portfolio.assetClasses)}
+                        onChange={onAssetsChange}
+                      />
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default AssetClassList;
@@ -0,0 +1,62 @@
+import { useState } from "react";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { ASSET_CLASS_LABELS, ASSET_CLASSES, AssetClass } from "@/lib/portfolio";
+
+interface AssetClassSelectProps {
+  ticker: string;
+  value: AssetClass;
+  onChange?: () => void;
+}
+
+const AssetClassSelect = ({ ticker, value, onChange }: AssetClassSelectProps) => {
+  const [loading, setLoading] = useState(false);
+  const { toast } = useToast();
+
+  const handleChange = async (assetClass: string) => {
+    setLoading(true);
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error("Usuário não autenticado");
+
+      const { error } = await supabase
+        .from("assets")
+        .upsert({ user_id: user.id, ticker, asset_class: assetClass }, { onConflict: "user_id,ticker" });
+
+      if (error) throw error;
+
+      toast({
+        title: "Classe atualizada",
+        description: `${ticker} agora é tratado como ${ASSET_CLASS_LABELS[assetClass as AssetClass]}`,
+      });
+
+      if (onChange) onChange();
+    } catch (error: any) {
+      toast({
+        title: "Erro ao atualizar classe",
+        description: error.message,
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Select value={value} onValueChange={handleChange} disabled={loading}>
+      <SelectTrigger className="h-8 w-40">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {ASSET_CLASSES.map((assetClass) => (
+          <SelectItem key={assetClass} value={assetClass}>
+            {ASSET_CLASS_LABELS[assetClass]}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+};
+
+export default AssetClassSelect;
@@ -0,0 +1,390 @@
+import { useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { useToast } from "@/hooks/use-toast";
+import { supabase } from "@/integrations/supabase/client";
+import { format } from "date-fns";
+import { formatCurrency, subtract, sum } from "@/lib/decimal";
+import { baseTicker, INCOME_TYPE_LABELS, inferAssetClass, Portfolio } from "@/lib/portfolio";
+import {
+  B3_EXPORT_LABELS,
+  B3Import as B3ImportResult,
+  IMPORT_STATUS_LABELS,
+  ImportedDividend,
+  ImportedTransaction,
+  ImportStatus,
+  readB3Workbook,
+  reconcileDividends,
+  reconcileTransactions,
+  ReconciledRow,
+  UnmatchedLine,
+} from "@/lib/import";
+
+interface B3ImportProps {
+  transactions: ImportedTransaction[];
+  dividends: ImportedDividend[];
+  portfolio: Portfolio;
+  onSuccess: () => void;
+}
+
+const STATUS_VARIANTS: { [key in ImportStatus]: "default" | "secondary" | "destructive" } = {
+  new: "default",
+  duplicate: "secondary",
+  conflict: "destructive",
+};
+
+const B3Import = ({ transactions, dividends, portfolio, onSuccess }: B3ImportProps) => {
+  const [files, setFiles] = useState<File[]>([]);
+  const [result, setResult] = useState<B3ImportResult | null>(null);
+  const [reconciledTransactions, setReconciledTransactions] = useState<ReconciledRow<ImportedTransaction>[]>([]);
+  const [reconciledDividends, setReconciledDividends] = useState<ReconciledRow<ImportedDividend>[]>([]);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [loading, setLoading] = useState(false);
+  const { toast } = useToast();
+
+  const reset = () => {
+    setFiles([]);
+    setResult(null);
+    setReconciledTransactions([]);
+    setReconciledDividends([]);
+    setSelected(new Set());
+  };
+
+  const handleRead = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setLoading(true);
+
+    try {
+      const merged: B3ImportResult = { kinds: [], transactions: [], dividends: [], positions: [], unmatched: [] };
+      for (const file of files) {
+        const read = await readB3Workbook(await file.arrayBuffer(), file.name, portfolio);
+        merged.kinds.push(...read.kinds.filter(kind => !merged.kinds.includes(kind)));
+        merged.transactions.push(...read.transactions);
+        merged.dividends.push(...read.dividends);
+        merged.positions.push(...read.positions);
+        merged.unmatched.push(...read.unmatched);
+      }
+
+      if (merged.kinds.length === 0) {
+        throw new Error("Nenhuma planilha de negociação, movimentação ou posição da B3 foi reconhecida");
+      }
+
+      const nextTransactions = reconcileTransactions(merged.transactions, transactions);
+      const nextDividends = reconcileDividends(merged.dividends, dividends);
+
+      // Only rows with no counterpart are selected up front; conflicts need a deliberate choice
+      const initial = new Set<string>();
+      nextTransactions.forEach(({ status }, index) => status === "new" && initial.add(`t-${index}`));
+      nextDividends.forEach(({ status }, index) => status === "new" && initial.add(`d-${index}`));
+
+      setResult(merged);
+      setReconciledTransactions(nextTransactions);
+      setReconciledDividends(nextDividends);
+      setSelected(initial);
+    } catch (error: any) {
+      toast({
+        title: "Erro ao ler planilhas",
+        description: error.message,
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const toggle = (key: string, checked: boolean) => {
+    const next = new Set(selected);
+    if (checked) next.add(key);
+    else next.delete(key);
+    setSelected(next);
+  };
+
+  const selectedTransactions = reconciledTransactions.filter((_, index) => selected.has(`t-${index}`)).map(r => r.row);
+  const selectedDividends = reconciledDividends.filter((_, index) => selected.has(`d-${index}`)).map(r => r.row);
+
+  // Positions are compared with the portfolio as it will be once the selected trades are in
+  const positionChecks = () => {
+    if (!result) return [];
+
+    const expected: { [ticker: string]: number } = {};
+    portfolio.positions.forEach(position => {
+      expected[position.stockCode] = position.quantity;
+    });
+    selectedTransactions.forEach(t => {
+      const ticker = baseTicker(t.stock_code);
+      expected[ticker] = sum([expected[ticker] || 0, t.transaction_type === "buy" ? t.quantity : -t.quantity]);
+    });
+
+    const reported: { [ticker: string]: number } = {};
+    result.positions.forEach(position => {
+      const ticker = baseTicker(position.stock_code);
+      reported[ticker] = sum([reported[ticker] || 0, position.quantity]);
+    });
+
+    const tickers = new Set([
+      ...Object.keys(reported),
+      ...Object.keys(expected).filter(ticker => expected[ticker] !== 0),
+    ]);
+    return [...tickers].sort().map(ticker => ({
+      ticker,
+      reported: reported[ticker] || 0,
+      expected: expected[ticker] || 0,
+    }));
+  };
+
+  const unmatchedByReason = () => {
+    const groups: { [reason: string]: UnmatchedLine[] } = {};
+    result?.unmatched.forEach(line => {
+      (groups[line.reason] = groups[line.reason] || []).push(line);
+    });
+    return Object.entries(groups);
+  };
+
+  const handleImport = async () => {
+    setLoading(true);
+
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error("Usuário não autenticado");
+
+      if (selectedTransactions.length > 0) {
+        const { error } = await supabase
+          .from("transactions")
+          .insert(selectedTransactions.map(row => ({ ...row, user_id: user.id })));
+
+        if (error) throw error;
+      }
+
+      if (selectedDividends.length > 0) {
+        const { error } = await supabase
+          .from("dividends")
+          .insert(selectedDividends.map(row => ({ ...row, user_id: user.id })));
+
+        if (error) throw error;
+      }
+
+      const tickers = [...new Set([...selectedTransactions, ...selectedDividends].map(row => baseTicker(row.stock_code)))];
+      const { error: assetError } = await supabase
+        .from("assets")
+        .upsert(
+          tickers.map(ticker => ({ user_id: user.id, ticker, asset_class: inferAssetClass(ticker) })),
+          { onConflict: "user_id,ticker", ignoreDuplicates: true },
+        );
+
+      if (assetError) throw assetError;
+
+      toast({
+        title: "Planilhas importadas!",
+        description: `${selectedTransactions.length} negociações e ${selectedDividends.length} proventos registrados`,
+      });
+
+      reset();
+      onSuccess();
+    } catch (error: any) {
+      toast({
+        title: "Erro ao importar",
+        description: error.message,
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const statusBadge = (status: ImportStatus) => (
+    <Badge variant={STATUS_VARIANTS[status]}>{IMPORT_STATUS_LABELS[status]}</Badge>
+  );
+
+  const checks = positionChecks();
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Importar Planilhas da B3</CardTitle>
+        <CardDescription>
+          Exportações de negociação, movimentação e posição da Área do Investidor. Linhas já registradas são marcadas como duplicadas e não são importadas novamente.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {!result ? (
+          <form onSubmit={handleRead} className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+            <div className="space-y-2 md:col-span-2">
+              <Label htmlFor="b3-files">Arquivos XLSX</Label>
+              <Input
+                id="b3-files"
+                type="file"
+                accept=".xlsx"
+                multiple
+                onChange={(e) => setFiles(Array.from(e.target.files || []))}
+                required
+              />
+            </div>
+            <Button type="submit" variant="outline" disabled={loading || files.length === 0}>
+              {loading ? "Lendo..." : "Ler Planilhas"}
+            </Button>
+          </form>
+        ) : (
+          <>
+            <div className="flex flex-wrap gap-2">
+              {result.kinds.map(kind => (
+                <Badge key={kind} variant="outline">{B3_EXPORT_LABELS[kind]}</Badge>
+              ))}
+            </div>
+
+            {reconciledTransactions.length > 0 && (
+              <div className="space-y-2">
+                <h3 className="font-semibold">Negociações</h3>
+                <div className="rounded-md border">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead className="w-10" />
+                        <TableHead>Situação</TableHead>
+                        <TableHead>Data</TableHead>
+                        <TableHead>Ativo</TableHead>
+                        <TableHead>C/V</TableHead>
+                        <TableHead className="text-right">Qtd.</TableHead>
+                        <TableHead className="text-right">Preço</TableHead>
+                        <TableHead className="text-right">Valor</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {reconciledTransactions.map(({ row, status }, index) => (
+                        <TableRow key={index}>
+                          <TableCell>
+                            <Checkbox
+                              checked={selected.has(`t-${index}`)}
+                              disabled={status === "duplicate"}
+                              onCheckedChange={(checked) => toggle(`t-${index}`, checked === true)}
+                            />
+                          </TableCell>
+                          <TableCell>{statusBadge(status)}</TableCell>
+                          <TableCell>{format(new Date(row.transaction_date), "dd/MM/yyyy")}</TableCell>
+                          <TableCell className="font-semibold">{row.stock_code}</TableCell>
+                          <TableCell>{row.transaction_type === "buy" ? "C" : "V"}</TableCell>
+                          <TableCell className="text-right">{row.quantity}</TableCell>
+                          <TableCell className="text-right">R$ {formatCurrency(row.price_per_share)}</TableCell>
+                          <TableCell className="text-right">R$ {formatCurrency(row.total_value)}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              </div>
+            )}
+
+            {reconciledDividends.length > 0 && (
+              <div className="space-y-2">
+                <h3 className="font-semibold">Proventos</h3>
+                <div className="rounded-md border">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead className="w-10" />
+                        <TableHead>Situação</TableHead>
+                        <TableHead>Data</TableHead>
+                        <TableHead>Ativo</TableHead>
+                        <TableHead>Tipo</TableHead>
+                        <TableHead className="text-right">IR Retido</TableHead>
+                        <TableHead className="text-right">Líquido</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {reconciledDividends.map(({ row, status }, index) => (
+                        <TableRow key={index}>
+                          <TableCell>
+                            <Checkbox
+                              checked={selected.has(`d-${index}`)}
+                              disabled={status === "duplicate"}
+                              onCheckedChange={(checked) => toggle(`d-${index}`, checked === true)}
+                            />
+                          </TableCell>
+                          <TableCell>{statusBadge(status)}</TableCell>
+                          <TableCell>{format(new Date(row.dividend_date), "dd/MM/yyyy")}</TableCell>
+                          <TableCell className="font-semibold">{row.stock_code}</TableCell>
+                          <TableCell>{INCOME_TYPE_LABELS[row.income_type]}</TableCell>
+                          <TableCell className="text-right">
+                            {row.withholding_tax > 0 ? `R$ ${formatCurrency(row.withholding_tax)}` : "-"}
+                          </TableCell>
+                          <TableCell className="text-right">R$ {formatCurrency(row.amount)}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              </div>
+            )}
+
+            {result.positions.length > 0 && (
+              <div className="space-y-2">
+                <h3 className="font-semibold">Conferência de Posição</h3>
+                <p className="text-sm text-muted-foreground">
+                  Quantidades informadas pela B3 comparadas com a carteira após a importação selecionada.
+                </p>
+                <div className="rounded-md border">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Ativo</TableHead>
+                        <TableHead className="text-right">B3</TableHead>
+                        <TableHead className="text-right">Carteira</TableHead>
+                        <TableHead className="text-right">Diferença</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {checks.map(({ ticker, reported, expected }) => (
+                        <TableRow key={ticker}>
+                          <TableCell className="font-semibold">{ticker}</TableCell>
+                          <TableCell className="text-right">{reported}</TableCell>
+                          <TableCell className="text-right">{expected}</TableCell>
+                          <TableCell className={`text-right font-semibold ${reported === expected ? "text-success" : "text-destructive"}`}>
+                            {reported === expected ? "OK" : subtract(expected, reported)}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              </div>
+            )}
+
+            {result.unmatched.length > 0 && (
+              <div className="space-y-2">
+                <h3 className="font-semibold">Linhas Não Importadas</h3>
+                <ul className="space-y-1 text-sm">
+                  {unmatchedByReason().map(([reason, lines]) => (
+                    <li key={reason} title={lines.slice(0, 5).map(l => `${l.source}, linha ${l.line}: ${l.content}`).join("\n")}>
+                      <span className="font-medium">{reason}</span>
+                      <span className="text-muted-foreground"> — {lines.length} linha(s)</span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            <div className="flex gap-2">
+              <Button
+                onClick={handleImport}
+                disabled={loading || selectedTransactions.length + selectedDividends.length === 0}
+              >
+                {loading
+                  ? "Importando..."
+                  : `Importar ${selectedTransactions.length} negociações e ${selectedDividends.length} proventos`}
+              </Button>
+              <Button variant="outline" onClick={reset} disabled={loading}>
+                Cancelar
+              </Button>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default B3Import;
@@ -0,0 +1,251 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Download, Upload } from "lucide-react";
+import { format } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { useToast } from "@/hooks/use-toast";
+import {
+  BACKUP_TABLES,
+  BackupArchive,
+  BackupTable,
+  buildBackupArchive,
+  downloadFile,
+  parseBackupArchive,
+  prepareRestoreRows,
+  RESTORE_MODE_LABELS,
+  RestoreMode,
+  toCsv,
+} from "@/lib/backup";
+
+interface BackupPanelProps {
+  onRestore?: () => void;
+}
+
+// PostgREST caps each response, so tables are read in pages
+const PAGE_SIZE = 1000;
+
+const TABLE_LABELS: { [T in BackupTable]: string } = {
+  assets: "ativos",
+  corporate_events: "eventos",
+  transactions: "transações",
+  dividends: "proventos",
+};
+
+const BackupPanel = ({ onRestore }: BackupPanelProps) => {
+  const [archive, setArchive] = useState<BackupArchive | null>(null);
+  const [restoreMode, setRestoreMode] = useState<RestoreMode>("merge");
+  const [confirmReplace, setConfirmReplace] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const { toast } = useToast();
+
+  const fetchTable = async <T extends BackupTable>(table: T) => {
+    const rows: Tables<T>[] = [];
+    for (let from = 0; ; from += PAGE_SIZE) {
+      const { data, error } = await supabase
+        .from(table)
+        .select("*")
+        .order("created_at")
+        .range(from, from + PAGE_SIZE - 1);
+
+      if (error) throw error;
+      rows.push(...(data as unknown as Tables<T>[]));
+      if (!data || data.length < PAGE_SIZE) return rows;
+    }
+  };
+
+  const fetchArchive = async () => {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) throw new Error("Usuário não autenticado");
+
+    const { data: profile, error } = await supabase
+      .from("profiles")
+      .select("username, cost_basis_method, quantity_precision")
+      .eq("id", user.id)
+      .single();
+
+    if (error) throw error;
+
+    const tables = {} as { [T in BackupTable]: Tables<T>[] };
+    for (const table of BACKUP_TABLES) {
+      (tables as { [key: string]: unknown[] })[table] = await fetchTable(table);
+    }
+    return buildBackupArchive(user.id, profile, tables);
+  };
+
+  const handleExportJson = async () => {
+    setLoading(true);
+    try {
+      const data = await fetchArchive();
+      downloadFile(
+        `financas-backup-${format(new Date(), "yyyy-MM-dd")}.json`,
+        JSON.stringify(data, null, 2),
+        "application/json",
+      );
+    } catch (error: any) {
+      toast({
+        title: "Erro ao exportar",
+        description: error.message,
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleExportCsv = async () => {
+    setLoading(true);
+    try {
+      const data = await fetchArchive();
+      BACKUP_TABLES.forEach(table => {
+        downloadFile(
+          `financas-${table}-${format(new Date(), "yyyy-MM-dd")}.csv`,
+          toCsv(data.tables[table]),
+          "text/csv",
+        );
+      });
+    } catch (error: any) {
+      toast({
+        title: "Erro ao exportar",
+        description: error.message,
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      setArchive(parseBackupArchive(await file.text()));
+    } catch (error: any) {
+      setArchive(null);
+      toast({
+        title: "Backup inválido",
+        description: error.message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleRestore = async () => {
+    if (!archive) return;
+    setConfirmReplace(false);
+    setLoading(true);
+
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error("Usuário não autenticado");
+
+      // The restore runs as a single database transaction: if any row is
+      // rejected nothing is deleted or written
+      const rows = prepareRestoreRows(archive, user.id);
+      const { error } = await supabase.rpc("restore_backup", {
+        p_mode: restoreMode,
+        p_profile: archive.profile,
+        p_tables: rows,
+      });
+
+      if (error) throw error;
+
+      toast({
+        title: "Backup restaurado",
+        description: BACKUP_TABLES.map(table => `${rows[table].length} ${TABLE_LABELS[table]}`).join(", "),
+      });
+
+      setArchive(null);
+      if (onRestore) onRestore();
+    } catch (error: any) {
+      toast({
+        title: "Erro ao restaurar backup",
+        description: error.message,
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <Label>Backup dos dados</Label>
+      <div className="flex gap-2">
+        <Button onClick={handleExportJson} disabled={loading} size="sm" variant="outline">
+          <Download className="h-4 w-4 mr-2" />
+          JSON
+        </Button>
+        <Button onClick={handleExportCsv} disabled={loading} size="sm" variant="outline">
+          <Download className="h-4 w-4 mr-2" />
+          CSV por tabela
+        </Button>
+      </div>
+
+      <Input
+        type="file"
+        accept="application/json,.json"
+        onChange={(e) => handleFile(e.target.files?.[0])}
+        disabled={loading}
+      />
+      {archive && (
+        <div className="space-y-2">
+          <p className="text-xs text-muted-foreground">
+            Backup de {format(new Date(archive.exported_at), "dd/MM/yyyy HH:mm")}:{" "}
+            {BACKUP_TABLES.map(table => `${archive.tables[table].length} ${TABLE_LABELS[table]}`).join(", ")}
+          </p>
+          <Select value={restoreMode} onValueChange={(value) => setRestoreMode(value as RestoreMode)} disabled={loading}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(RESTORE_MODE_LABELS).map(([value, label]) => (
+                <SelectItem key={value} value={value}>
+                  {label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button
+            onClick={() => restoreMode === "replace" ? setConfirmReplace(true) : handleRestore()}
+            disabled={loading}
+            size="sm"
+          >
+            <Upload className="h-4 w-4 mr-2" />
+            Restaurar backup
+          </Button>
+        </div>
+      )}
+
+      <AlertDialog open={confirmReplace} onOpenChange={setConfirmReplace}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Substituir todos os dados?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Transações, proventos, eventos e ativos atuais serão apagados e trocados pelo conteúdo do backup.
+              Esta ação não pode ser desfeita.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancelar</AlertDialogCancel>
+            <AlertDialogAction onClick={handleRestore}>Substituir</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
+
+export default BackupPanel;
@@ -0,0 +1,277 @@
+import { useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { useToast } from "@/hooks/use-toast";
+import { supabase } from "@/integrations/supabase/client";
+import { format } from "date-fns";
+import { formatCurrency } from "@/lib/decimal";
+import { baseTicker, inferAssetClass, Portfolio, transactionFees, transactionSchemaFor, validationError } from "@/lib/portfolio";
+import {
+  BROKERAGE_NOTE_FEE_LABELS,
+  BrokerageNote,
+  BrokerageNoteFees,
+  brokerageNoteToTransactions,
+  extractPdfLines,
+  isBrokerageNoteImported,
+  parseBrokerageNotes,
+} from "@/lib/import";
+
+interface BrokerageNoteImportProps {
+  transactions: { notes?: string | null }[];
+  portfolio: Portfolio;
+  onSuccess: () => void;
+}
+
+const BrokerageNoteImport = ({ transactions, portfolio, onSuccess }: BrokerageNoteImportProps) => {
+  const [file, setFile] = useState<File | null>(null);
+  const [password, setPassword] = useState("");
+  const [notes, setNotes] = useState<BrokerageNote[]>([]);
+  const [excluded, setExcluded] = useState<Set<string>>(new Set());
+  const [loading, setLoading] = useState(false);
+  const { toast } = useToast();
+
+  const tradeKey = (noteIndex: number, tradeIndex: number) => `${noteIndex}-${tradeIndex}`;
+
+  const handleRead = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!file) return;
+    setLoading(true);
+
+    try {
+      const pages = await extractPdfLines(await file.arrayBuffer(), password || undefined);
+      const parsed = parseBrokerageNotes(pages);
+      if (parsed.length === 0) {
+        throw new Error("Nenhuma nota de corretagem no padrão SINACOR foi encontrada no arquivo");
+      }
+
+      // Notes that were imported before start unchecked
+      const skipped = new Set<string>();
+      parsed.forEach((note, noteIndex) => {
+        if (isBrokerageNoteImported(note, transactions)) {
+          note.trades.forEach((_, tradeIndex) => skipped.add(tradeKey(noteIndex, tradeIndex)));
+        }
+      });
+
+      setNotes(parsed);
+      setExcluded(skipped);
+    } catch (error: any) {
+      toast({
+        title: "Erro ao ler nota",
+        description: error.name === "PasswordException"
+          ? "O PDF é protegido por senha; informe a senha (geralmente os dígitos do CPF)"
+          : error.message,
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const updateTicker = (noteIndex: number, tradeIndex: number, ticker: string) => {
+    setNotes(notes.map((note, n) => n !== noteIndex ? note : {
+      ...note,
+      trades: note.trades.map((trade, t) => t !== tradeIndex ? trade : { ...trade, ticker: ticker.toUpperCase() }),
+    }));
+  };
+
+  const toggleTrade = (key: string, included: boolean) => {
+    const next = new Set(excluded);
+    if (included) next.delete(key);
+    else next.add(key);
+    setExcluded(next);
+  };
+
+  // Only checked trades become rows and share the note's fees; they are checked with the same
+  // rules as the transaction form, as the user edits their tickers
+  const schema = transactionSchemaFor(portfolio);
+  const noteRows = notes.map((note, noteIndex) => {
+    const tradeIndexes = note.trades.map((_, tradeIndex) => tradeIndex).filter(tradeIndex => !excluded.has(tradeKey(noteIndex, tradeIndex)));
+    return brokerageNoteToTransactions(note, tradeIndexes).map((row, index) => ({
+      tradeIndex: tradeIndexes[index],
+      row,
+      error: validationError(schema, row),
+    }));
+  });
+  const selected = noteRows.flat();
+  const selectedRows = selected.map(({ row }) => row);
+
+  const handleImport = async () => {
+    setLoading(true);
+
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error("Usuário não autenticado");
+
+      const invalid = selected.find(({ error }) => error);
+      if (invalid) throw new Error(`${invalid.row.stock_code || "Negócio sem código"}: ${invalid.error}`);
+
+      const { error } = await supabase
+        .from("transactions")
+        .insert(selectedRows.map(row => ({ ...row, user_id: user.id })));
+
+      if (error) throw error;
+
+      const tickers = [...new Set(selectedRows.map(row => baseTicker(row.stock_code)))];
+      const { error: assetError } = await supabase
+        .from("assets")
+        .upsert(
+          tickers.map(ticker => ({ user_id: user.id, ticker, asset_class: inferAssetClass(ticker) })),
+          { onConflict: "user_id,ticker", ignoreDuplicates: true },
+        );
+
+      if (assetError) throw assetError;
+
+      toast({
+        title: "Nota importada!",
+        description: `${selectedRows.length} transações registradas`,
+      });
+
+      setFile(null);
+      setPassword("");
+      setNotes([]);
+      setExcluded(new Set());
+      onSuccess();
+    } catch (error: any) {
+      toast({
+        title: "Erro ao importar",
+        description: error.message,
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Importar Nota de Corretagem</CardTitle>
+        <CardDescription>
+          Leia notas no padrão SINACOR (PDF) e revise os negócios antes de registrá-los. As taxas da nota são rateadas entre os negócios selecionados pelo valor de cada um.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <form onSubmit={handleRead} className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+          <div className="space-y-2">
+            <Label htmlFor="note-file">Arquivo PDF</Label>
+            <Input
+              id="note-file"
+              type="file"
+              accept="application/pdf"
+              onChange={(e) => setFile(e.target.files?.[0] || null)}
+              required
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="note-password">Senha do PDF (opcional)</Label>
+            <Input
+              id="note-password"
+              type="password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+            />
+          </div>
+          <Button type="submit" variant="outline" disabled={loading || !file}>
+            {loading ? "Lendo..." : "Ler Nota"}
+          </Button>
+        </form>
+
+        {notes.map((note, noteIndex) => (
+          <div key={noteIndex} className="space-y-2">
+            <div className="flex flex-wrap items-center gap-2">
+              <h3 className="font-semibold">
+                Nota {note.number ? `nº ${note.number}` : "sem número"} — {format(note.tradeDate, "dd/MM/yyyy")}
+              </h3>
+              {isBrokerageNoteImported(note, transactions) && <Badge variant="destructive">Já importada</Badge>}
+            </div>
+            <p className="text-sm text-muted-foreground">
+              {(Object.keys(BROKERAGE_NOTE_FEE_LABELS) as (keyof BrokerageNoteFees)[])
+                .filter(key => note.fees[key] > 0)
+                .map(key => `${BROKERAGE_NOTE_FEE_LABELS[key]}: R$ ${formatCurrency(note.fees[key])}`)
+                .join(" · ") || "Sem taxas"}
+            </p>
+            {note.fees.irrf > 0 && (
+              <p className="text-xs text-muted-foreground">
+                O IRRF retido não entra no custo; ele pode ser abatido do imposto devido no mês.
+              </p>
+            )}
+            {note.ignoredLines.length > 0 && (
+              <Alert>
+                <AlertDescription>
+                  {note.ignoredLines.length} negócio(s) fora do mercado à vista (opções, termo) foram ignorados.
+                </AlertDescription>
+              </Alert>
+            )}
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-10" />
+                    <TableHead>C/V</TableHead>
+                    <TableHead>Especificação</TableHead>
+                    <TableHead>Ativo</TableHead>
+                    <TableHead className="text-right">Qtd.</TableHead>
+                    <TableHead className="text-right">Preço</TableHead>
+                    <TableHead className="text-right">Valor</TableHead>
+                    <TableHead className="text-right">Taxas</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {note.trades.map((trade, tradeIndex) => {
+                    const key = tradeKey(noteIndex, tradeIndex);
+                    const selectedRow = noteRows[noteIndex].find(row => row.tradeIndex === tradeIndex);
+                    return (
+                      <TableRow key={key}>
+                        <TableCell>
+                          <Checkbox
+                            checked={!excluded.has(key)}
+                            onCheckedChange={(checked) => toggleTrade(key, checked === true)}
+                          />
+                        </TableCell>
+                        <TableCell>
+                          <Badge variant={trade.side === "buy" ? "default" : "destructive"}>
+                            {trade.side === "buy" ? "C" : "V"}
+                          </Badge>
+                        </TableCell>
+                        <TableCell className="text-muted-foreground">{trade.specification}</TableCell>
+                        <TableCell>
+                          <Input
+                            className="h-8 w-28"
+                            placeholder="Ex: PETR4"
+                            value={trade.ticker}
+                            onChange={(e) => updateTicker(noteIndex, tradeIndex, e.target.value)}
+                          />
+                          {selectedRow?.error && <p className="text-xs text-destructive mt-1">{selectedRow.error}</p>}
+                        </TableCell>
+                        <TableCell className="text-right">{trade.quantity}</TableCell>
+                        <TableCell className="text-right">R$ {formatCurrency(trade.price)}</TableCell>
+                        <TableCell className="text-right">R$ {formatCurrency(trade.grossValue)}</TableCell>
+                        <TableCell className="text-right">
+                          {selectedRow ? `R$ ${formatCurrency(transactionFees(selectedRow.row))}` : "-"}
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </div>
+          </div>
+        ))}
+
+        {notes.length > 0 && (
+          <Button onClick={handleImport} disabled={loading || selectedRows.length === 0 || selected.some(({ error }) => error)} className="w-1/2">
+            {loading ? "Importando..." : `Importar ${selectedRows.length} transações`}
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default BrokerageNoteImport;
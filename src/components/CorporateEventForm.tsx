@@ -0,0 +1,229 @@
+import { useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { format } from "date-fns";
+import { CORPORATE_EVENT_LABELS, CORPORATE_EVENT_TYPES, CorporateEventType } from "@/lib/portfolio";
+
+interface CorporateEventFormProps {
+  onSuccess: () => void;
+}
+
+const CorporateEventForm = ({ onSuccess }: CorporateEventFormProps) => {
+  const [ticker, setTicker] = useState("");
+  const [eventType, setEventType] = useState<CorporateEventType>("split");
+  const [eventDate, setEventDate] = useState(format(new Date(), "yyyy-MM-dd"));
+  const [ratioFrom, setRatioFrom] = useState("1");
+  const [ratioTo, setRatioTo] = useState("");
+  const [unitCost, setUnitCost] = useState("");
+  const [newTicker, setNewTicker] = useState("");
+  const [cashPerShare, setCashPerShare] = useState("");
+  const [notes, setNotes] = useState("");
+  const [loading, setLoading] = useState(false);
+  const { toast } = useToast();
+
+  const isTickerMove = eventType === "ticker_change" || eventType === "merger";
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setLoading(true);
+
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error("Usuário não autenticado");
+
+      const from = parseFloat(ratioFrom);
+      const to = parseFloat(ratioTo);
+      if (eventType === "split" && to <= from) {
+        throw new Error("No desdobramento a quantidade final deve ser maior que a inicial");
+      }
+      if (eventType === "reverse_split" && to >= from) {
+        throw new Error("No grupamento a quantidade final deve ser menor que a inicial");
+      }
+      if (isTickerMove && newTicker.toUpperCase() === ticker.toUpperCase()) {
+        throw new Error("O novo código deve ser diferente do código atual");
+      }
+
+      const { error } = await supabase.from("corporate_events").insert({
+        user_id: user.id,
+        ticker: ticker.toUpperCase(),
+        event_type: eventType,
+        event_date: new Date(eventDate).toISOString(),
+        ratio_from: from,
+        ratio_to: to,
+        unit_cost: eventType === "bonus" && unitCost ? parseFloat(unitCost) : null,
+        new_ticker: isTickerMove ? newTicker.toUpperCase() : null,
+        cash_per_share: eventType === "merger" && cashPerShare ? parseFloat(cashPerShare) : null,
+        notes: notes || null,
+      });
+
+      if (error) throw error;
+
+      toast({
+        title: "Evento registrado",
+        description: `${CORPORATE_EVENT_LABELS[eventType]} de ${ticker.toUpperCase()} registrado com sucesso!`,
+      });
+
+      setTicker("");
+      setRatioFrom("1");
+      setRatioTo("");
+      setUnitCost("");
+      setNewTicker("");
+      setCashPerShare("");
+      setNotes("");
+      setEventDate(format(new Date(), "yyyy-MM-dd"));
+      onSuccess();
+    } catch (error: any) {
+      toast({
+        title: "Erro ao registrar evento",
+        description: error.message,
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Registrar Evento Corporativo</CardTitle>
+        <CardDescription>
+          Desdobramentos, grupamentos, bonificações e mudanças de código são aplicados às posições a partir da data ex
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="event-date">Data Ex</Label>
+              <Input
+                id="event-date"
+                type="date"
+                value={eventDate}
+                onChange={(e) => setEventDate(e.target.value)}
+                required
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="event-ticker">Ativo</Label>
+              <Input
+                id="event-ticker"
+                placeholder="Ex: PETR4"
+                value={ticker}
+                onChange={(e) => setTicker(e.target.value.toUpperCase())}
+                required
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="event-type">Tipo</Label>
+              <Select value={eventType} onValueChange={(value) => setEventType(value as CorporateEventType)}>
+                <SelectTrigger id="event-type">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {CORPORATE_EVENT_TYPES.map((type) => (
+                    <SelectItem key={type} value={type}>
+                      {CORPORATE_EVENT_LABELS[type]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="ratio-from">{eventType === "bonus" ? "A cada (ações)" : "De (ações)"}</Label>
+              <Input
+                id="ratio-from"
+                type="number"
+                step="any"
+                min="0"
+                value={ratioFrom}
+                onChange={(e) => setRatioFrom(e.target.value)}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="ratio-to">{eventType === "bonus" ? "Novas ações recebidas" : "Para (ações)"}</Label>
+              <Input
+                id="ratio-to"
+                type="number"
+                step="any"
+                min="0"
+                placeholder={eventType === "reverse_split" || isTickerMove ? "1" : "10"}
+                value={ratioTo}
+                onChange={(e) => setRatioTo(e.target.value)}
+                required
+              />
+            </div>
+            {isTickerMove && (
+              <div className="space-y-2">
+                <Label htmlFor="new-ticker">Novo código</Label>
+                <Input
+                  id="new-ticker"
+                  placeholder="Ex: AXIA3"
+                  value={newTicker}
+                  onChange={(e) => setNewTicker(e.target.value.toUpperCase())}
+                  required
+                />
+              </div>
+            )}
+            {eventType === "merger" && (
+              <div className="space-y-2">
+                <Label htmlFor="cash-per-share">Dinheiro por ação antiga (R$)</Label>
+                <Input
+                  id="cash-per-share"
+                  type="number"
+                  step="0.000001"
+                  min="0"
+                  placeholder="0,00"
+                  value={cashPerShare}
+                  onChange={(e) => setCashPerShare(e.target.value)}
+                />
+              </div>
+            )}
+            {eventType === "bonus" && (
+              <div className="space-y-2">
+                <Label htmlFor="unit-cost">Custo atribuído por ação (R$)</Label>
+                <Input
+                  id="unit-cost"
+                  type="number"
+                  step="0.000001"
+                  min="0"
+                  placeholder="Conforme aviso aos acionistas"
+                  value={unitCost}
+                  onChange={(e) => setUnitCost(e.target.value)}
+                />
+              </div>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="event-notes">Observações (opcional)</Label>
+            <Textarea
+              id="event-notes"
+              placeholder="Ex: Aviso aos acionistas de 10/04/2024"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+            />
+          </div>
+
+          <Button type="submit" disabled={loading} className="w-1/2">
+            {loading ? "Registrando..." : "Registrar Evento"}
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default CorporateEventForm;
@@ -0,0 +1,125 @@
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { Trash2 } from "lucide-react";
+import { format } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { formatCurrency } from "@/lib/decimal";
+import { CORPORATE_EVENT_LABELS, isCorporateEventType } from "@/lib/portfolio";
+
+interface CorporateEvent {
+  id: string;
+  ticker: string;
+  event_type: string;
+  event_date: string;
+  ratio_from: number;
+  ratio_to: number;
+  unit_cost: number | null;
+  new_ticker: string | null;
+  cash_per_share: number | null;
+  notes: string | null;
+}
+
+interface CorporateEventListProps {
+  events: CorporateEvent[];
+  onDelete?: () => void;
+}
+
+const CorporateEventList = ({ events, onDelete }: CorporateEventListProps) => {
+  const { toast } = useToast();
+
+  const handleDelete = async (id: string) => {
+    try {
+      const { error } = await supabase
+        .from("corporate_events")
+        .delete()
+        .eq("id", id);
+
+      if (error) throw error;
+
+      toast({
+        title: "Evento excluído",
+        description: "O evento foi removido com sucesso",
+      });
+
+      if (onDelete) onDelete();
+    } catch (error: any) {
+      toast({
+        title: "Erro ao excluir",
+        description: error.message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const formatRatio = (event: CorporateEvent) => {
+    if (event.event_type === "bonus") {
+      return `${event.ratio_to} nova(s) a cada ${event.ratio_from}`;
+    }
+    const ratio = `${event.ratio_from}:${event.ratio_to}`;
+    if (event.cash_per_share) {
+      return `${ratio} + R$ ${formatCurrency(event.cash_per_share)}/ação`;
+    }
+    return ratio;
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Eventos Corporativos</CardTitle>
+      </CardHeader>
+      <CardContent>
+        {events.length === 0 ? (
+          <p className="text-muted-foreground text-center py-8">
+            Nenhum evento registrado
+          </p>
+        ) : (
+          <div className="rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Data Ex</TableHead>
+                  <TableHead>Ativo</TableHead>
+                  <TableHead>Tipo</TableHead>
+                  <TableHead className="text-right">Proporção</TableHead>
+                  <TableHead className="text-right">Custo Atribuído</TableHead>
+                  <TableHead className="text-right">Ações</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {events.map((event) => (
+                  <TableRow key={event.id}>
+                    <TableCell>{format(new Date(event.event_date), "dd/MM/yyyy")}</TableCell>
+                    <TableCell className="font-semibold">
+                      {event.new_ticker ? `${event.ticker} → ${event.new_ticker}` : event.ticker}
+                    </TableCell>
+                    <TableCell>
+                      {isCorporateEventType(event.event_type) ? CORPORATE_EVENT_LABELS[event.event_type] : event.event_type}
+                    </TableCell>
+                    <TableCell className="text-right">{formatRatio(event)}</TableCell>
+                    <TableCell className="text-right">
+                      {event.unit_cost !== null ? `R$ ${formatCurrency(event.unit_cost)}` : "-"}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => handleDelete(event.id)}
+                        className="h-8 w-8 text-destructive hover:text-destructive"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default CorporateEventList;
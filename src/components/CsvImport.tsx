@@ -0,0 +1,296 @@
+import { useState } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Button } from "@/components/ui/button";
+import { FileUp } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { supabase } from "@/integrations/supabase/client";
+import { format } from "date-fns";
+import { formatCurrency } from "@/lib/decimal";
+import { baseTicker, INCOME_TYPE_LABELS, inferAssetClass, Portfolio } from "@/lib/portfolio";
+import {
+  ColumnMapping,
+  CSV_DATE_FORMATS,
+  CsvDateFormat,
+  CsvRowResult,
+  DecimalSeparator,
+  DIVIDEND_CSV_FIELDS,
+  DividendCsvField,
+  guessColumnMapping,
+  ImportedDividend,
+  ImportedTransaction,
+  mapDividendRows,
+  mapTransactionRows,
+  parseCsv,
+  TRANSACTION_CSV_FIELDS,
+  TransactionCsvField,
+} from "@/lib/import";
+
+type CsvImportKind = "buy" | "sell" | "dividend";
+
+interface CsvImportProps {
+  kind: CsvImportKind;
+  portfolio: Portfolio;
+  onSuccess: () => void;
+}
+
+const KIND_LABELS: { [key in CsvImportKind]: string } = {
+  buy: "compras",
+  sell: "vendas",
+  dividend: "proventos",
+};
+
+// Sentinel for an unmapped column, since Select items cannot have an empty value
+const UNMAPPED = "none";
+
+const CsvImport = ({ kind, portfolio, onSuccess }: CsvImportProps) => {
+  const [open, setOpen] = useState(false);
+  const [headers, setHeaders] = useState<string[]>([]);
+  const [rows, setRows] = useState<string[][]>([]);
+  const [mapping, setMapping] = useState<ColumnMapping<TransactionCsvField | DividendCsvField>>({});
+  const [dateFormat, setDateFormat] = useState<CsvDateFormat>("dd/MM/yyyy");
+  const [decimalSeparator, setDecimalSeparator] = useState<DecimalSeparator>("comma");
+  const [loading, setLoading] = useState(false);
+  const { toast } = useToast();
+
+  const fields = kind === "dividend" ? DIVIDEND_CSV_FIELDS : TRANSACTION_CSV_FIELDS;
+  const options = { dateFormat, decimalSeparator };
+
+  const requiredMapped = fields.every(({ field, required }) => !required || mapping[field] !== undefined)
+    && (kind !== "dividend" || mapping.gross_amount !== undefined || mapping.net_amount !== undefined);
+
+  // Dry run: every row is mapped and validated before anything is written
+  const results: CsvRowResult<ImportedTransaction | ImportedDividend>[] = !requiredMapped
+    ? []
+    : kind === "dividend"
+      ? mapDividendRows(rows, mapping, options)
+      : mapTransactionRows(rows, mapping, kind, options, portfolio);
+  const errors = results.filter(result => result.error);
+
+  const reset = () => {
+    setHeaders([]);
+    setRows([]);
+    setMapping({});
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+
+    try {
+      const [header, ...data] = parseCsv(await file.text());
+      if (!header || data.length === 0) throw new Error("O arquivo não possui linhas de dados");
+
+      setHeaders(header.map(column => column.trim()));
+      setRows(data);
+      setMapping(guessColumnMapping(header, fields));
+    } catch (error: any) {
+      toast({
+        title: "Erro ao ler CSV",
+        description: error.message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleImport = async () => {
+    setLoading(true);
+
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error("Usuário não autenticado");
+
+      if (errors.length > 0) throw new Error("Corrija as linhas com erro antes de importar");
+
+      // A single multi-row insert runs as one statement, so either every row is stored or none is
+      const payload = results.map(result => ({ ...result.row!, user_id: user.id }));
+      const { error } = kind === "dividend"
+        ? await supabase.from("dividends").insert(payload as (ImportedDividend & { user_id: string })[])
+        : await supabase.from("transactions").insert(payload as (ImportedTransaction & { user_id: string })[]);
+
+      if (error) throw error;
+
+      if (kind !== "dividend") {
+        const tickers = [...new Set(results.map(result => baseTicker(result.row!.stock_code)))];
+        const { error: assetError } = await supabase
+          .from("assets")
+          .upsert(
+            tickers.map(ticker => ({ user_id: user.id, ticker, asset_class: inferAssetClass(ticker) })),
+            { onConflict: "user_id,ticker", ignoreDuplicates: true },
+          );
+
+        if (assetError) throw assetError;
+      }
+
+      toast({
+        title: "CSV importado!",
+        description: `${results.length} ${KIND_LABELS[kind]} registrados`,
+      });
+
+      reset();
+      setOpen(false);
+      onSuccess();
+    } catch (error: any) {
+      toast({
+        title: "Erro ao importar",
+        description: error.message,
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const renderPreviewRow = (result: CsvRowResult<ImportedTransaction | ImportedDividend>) => {
+    if (!result.row) {
+      return (
+        <TableCell colSpan={4} className="text-destructive">{result.error}</TableCell>
+      );
+    }
+    if ("dividend_date" in result.row) {
+      return (
+        <>
+          <TableCell>{format(new Date(result.row.dividend_date), "dd/MM/yyyy")}</TableCell>
+          <TableCell className="font-semibold">{result.row.stock_code}</TableCell>
+          <TableCell>{INCOME_TYPE_LABELS[result.row.income_type]}</TableCell>
+          <TableCell className="text-right">R$ {formatCurrency(result.row.amount)}</TableCell>
+        </>
+      );
+    }
+    return (
+      <>
+        <TableCell>{format(new Date(result.row.transaction_date), "dd/MM/yyyy")}</TableCell>
+        <TableCell className="font-semibold">{result.row.stock_code}</TableCell>
+        <TableCell className="text-right">{result.row.quantity}</TableCell>
+        <TableCell className="text-right">R$ {formatCurrency(result.row.total_value)}</TableCell>
+      </>
+    );
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(value) => { setOpen(value); if (!value) reset(); }}>
+      <DialogTrigger asChild>
+        <Button variant="outline">
+          <FileUp className="h-4 w-4 mr-2" />
+          Importar CSV
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[760px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Importar {KIND_LABELS[kind]} de CSV</DialogTitle>
+          <DialogDescription>
+            Associe as colunas do arquivo aos campos e confira a prévia. Nada é gravado enquanto houver linhas com erro.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="csv-file">Arquivo CSV</Label>
+              <Input id="csv-file" type="file" accept=".csv,text/csv" onChange={(e) => handleFile(e.target.files?.[0])} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="csv-date-format">Formato da data</Label>
+              <Select value={dateFormat} onValueChange={(value) => setDateFormat(value as CsvDateFormat)}>
+                <SelectTrigger id="csv-date-format">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {CSV_DATE_FORMATS.map((dateFormatOption) => (
+                    <SelectItem key={dateFormatOption} value={dateFormatOption}>{dateFormatOption}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="csv-decimal">Separador decimal</Label>
+              <Select value={decimalSeparator} onValueChange={(value) => setDecimalSeparator(value as DecimalSeparator)}>
+                <SelectTrigger id="csv-decimal">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="comma">Vírgula (1.234,56)</SelectItem>
+                  <SelectItem value="dot">Ponto (1,234.56)</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          {headers.length > 0 && (
+            <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
+              {fields.map(({ field, label, required }) => (
+                <div key={field} className="space-y-2">
+                  <Label>{label}{required ? " *" : ""}</Label>
+                  <Select
+                    value={mapping[field] !== undefined ? String(mapping[field]) : UNMAPPED}
+                    onValueChange={(value) => setMapping({ ...mapping, [field]: value === UNMAPPED ? undefined : Number(value) })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={UNMAPPED}>Não importar</SelectItem>
+                      {headers.map((header, index) => (
+                        <SelectItem key={index} value={String(index)}>{header || `Coluna ${index + 1}`}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {headers.length > 0 && !requiredMapped && (
+            <p className="text-sm text-muted-foreground">
+              Associe os campos obrigatórios{kind === "dividend" ? " e o valor bruto ou líquido" : ""} para ver a prévia.
+            </p>
+          )}
+
+          {results.length > 0 && (
+            <>
+              <p className="text-sm">
+                {results.length - errors.length} de {results.length} linhas válidas
+                {errors.length > 0 && <span className="text-destructive"> · {errors.length} com erro</span>}
+              </p>
+              <div className="rounded-md border max-h-72 overflow-y-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Linha</TableHead>
+                      <TableHead>Data</TableHead>
+                      <TableHead>Ativo</TableHead>
+                      <TableHead className={kind === "dividend" ? "" : "text-right"}>
+                        {kind === "dividend" ? "Tipo" : "Qtd."}
+                      </TableHead>
+                      <TableHead className="text-right">{kind === "dividend" ? "Líquido" : "Valor Total"}</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {results.map((result) => (
+                      <TableRow key={result.line}>
+                        <TableCell className="text-muted-foreground">{result.line}</TableCell>
+                        {renderPreviewRow(result)}
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            </>
+          )}
+
+          <Button
+            onClick={handleImport}
+            disabled={loading || results.length === 0 || errors.length > 0}
+            className="w-full"
+          >
+            {loading ? "Importando..." : `Importar ${results.length} ${KIND_LABELS[kind]}`}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default CsvImport;
@@ -4,20 +4,71 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
 import { format } from "date-fns";
+import { formatCurrency, roundMoney, subtract } from "@/lib/decimal";
+import {
+  baseTicker,
+  calculateWithholding,
+  dividendSchema,
+  INCOME_TYPE_LABELS,
+  INCOME_TYPES,
+  IncomeType,
+  isIncomeType,
+  validationError,
+} from "@/lib/portfolio";
+
+interface EditableDividend {
+  id: string;
+  stock_code: string;
+  dividend_date: string;
+  income_type: string;
+  gross_amount: number;
+  withholding_tax: number;
+}
 
 interface DividendFormProps {
+  dividend?: EditableDividend;
   onSuccess: () => void;
 }
 
-const DividendForm = ({ onSuccess }: DividendFormProps) => {
-  const [stockCode, setStockCode] = useState("");
-  const [amount, setAmount] = useState("");
-  const [dividendDate, setDividendDate] = useState(format(new Date(), "yyyy-MM-dd"));
+const DividendForm = ({ dividend, onSuccess }: DividendFormProps) => {
+  const [stockCode, setStockCode] = useState(dividend?.stock_code || "");
+  const [incomeType, setIncomeType] = useState<IncomeType>(
+    dividend && isIncomeType(dividend.income_type) ? dividend.income_type : "dividend",
+  );
+  const [grossAmount, setGrossAmount] = useState(dividend ? String(dividend.gross_amount) : "");
+  const [withholdingTax, setWithholdingTax] = useState(
+    dividend && dividend.withholding_tax > 0 ? String(dividend.withholding_tax) : "",
+  );
+  const [dividendDate, setDividendDate] = useState(
+    dividend ? dividend.dividend_date.slice(0, 10) : format(new Date(), "yyyy-MM-dd"),
+  );
   const [loading, setLoading] = useState(false);
   const { toast } = useToast();
 
+  const gross = parseFloat(grossAmount) || 0;
+  const withholding = parseFloat(withholdingTax) || 0;
+  const netAmount = roundMoney(subtract(gross, withholding));
+
+  // Withholding follows the income type until the user overrides it
+  const updateWithholding = (type: IncomeType, value: string) => {
+    const amount = calculateWithholding(type, parseFloat(value) || 0);
+    setWithholdingTax(amount > 0 ? String(amount) : "");
+  };
+
+  const handleIncomeTypeChange = (value: string) => {
+    const type = value as IncomeType;
+    setIncomeType(type);
+    updateWithholding(type, grossAmount);
+  };
+
+  const handleGrossAmountChange = (value: string) => {
+    setGrossAmount(value);
+    updateWithholding(incomeType, value);
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setLoading(true);
@@ -27,27 +78,43 @@ const DividendForm = ({ onSuccess }: DividendFormProps) => {
       
       if (!user) throw new Error("Usuário não autenticado");
 
-      const { error } = await supabase.from("dividends").insert({
-        user_id: user.id,
-        stock_code: stockCode.toUpperCase(),
-        amount: parseFloat(amount),
+      // Distributions belong to the asset, never to its fractional-market ticker
+      const values = {
+        stock_code: baseTicker(stockCode),
+        income_type: incomeType,
+        gross_amount: gross,
+        withholding_tax: withholding,
+        amount: netAmount,
         dividend_date: new Date(dividendDate).toISOString(),
-      });
+      };
+
+      const invalid = validationError(dividendSchema, values);
+      if (invalid) throw new Error(invalid);
+
+      const { error } = dividend
+        ? await supabase.from("dividends").update(values).eq("id", dividend.id)
+        : await supabase.from("dividends").insert({ user_id: user.id, ...values });
 
       if (error) throw error;
 
       toast({
-        title: "Dividendo registrado",
-        description: `Dividendo de ${stockCode.toUpperCase()} registrado com sucesso!`,
+        title: dividend ? "Provento atualizado" : "Provento registrado",
+        description: `${INCOME_TYPE_LABELS[incomeType]} de ${baseTicker(stockCode)} ${dividend ? "atualizado" : "registrado"} com sucesso!`,
       });
 
+      if (dividend) {
+        onSuccess();
+        return;
+      }
+
       setStockCode("");
-      setAmount("");
+      setGrossAmount("");
+      setWithholdingTax("");
       setDividendDate(format(new Date(), "yyyy-MM-dd"));
       onSuccess();
     } catch (error: any) {
       toast({
-        title: "Erro ao registrar dividendo",
+        title: dividend ? "Erro ao atualizar provento" : "Erro ao registrar provento",
         description: error.message,
         variant: "destructive",
       });
@@ -56,58 +123,102 @@ const DividendForm = ({ onSuccess }: DividendFormProps) => {
     }
   };
 
+  const form = (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="dividend-date">Data</Label>
+          <Input
+            id="dividend-date"
+            type="date"
+            value={dividendDate}
+            onChange={(e) => setDividendDate(e.target.value)}
+            required
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="dividend-stock">Ativo</Label>
+          <Input
+            id="dividend-stock"
+            placeholder="Ex: PETR4"
+            value={stockCode}
+            onChange={(e) => setStockCode(e.target.value)}
+            required
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="dividend-type">Tipo</Label>
+          <Select value={incomeType} onValueChange={handleIncomeTypeChange}>
+            <SelectTrigger id="dividend-type">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {INCOME_TYPES.map((type) => (
+                <SelectItem key={type} value={type}>
+                  {INCOME_TYPE_LABELS[type]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="dividend-gross">Valor Bruto (R$)</Label>
+          <Input
+            id="dividend-gross"
+            type="number"
+            step="0.01"
+            min="0"
+            placeholder="0.00"
+            value={grossAmount}
+            onChange={(e) => handleGrossAmountChange(e.target.value)}
+            required
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="dividend-withholding">IR Retido na Fonte (R$)</Label>
+          <Input
+            id="dividend-withholding"
+            type="number"
+            step="0.01"
+            min="0"
+            placeholder="0.00"
+            value={withholdingTax}
+            onChange={(e) => setWithholdingTax(e.target.value)}
+          />
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label>Valor Líquido</Label>
+        <div className="text-2xl font-bold">R$ {formatCurrency(netAmount)}</div>
+      </div>
+
+      <Button 
+        type="submit" 
+        disabled={loading} 
+        className="w-1/2 bg-cyan-600 hover:bg-cyan-700 text-white"
+      >
+        {loading ? "Salvando..." : dividend ? "Salvar Alterações" : "Registrar Provento"}
+      </Button>
+    </form>
+  );
+
+  // When editing, the form is rendered inside the caller's dialog
+  if (dividend) return form;
+
   return (
     <Card>
       <CardHeader>
-        <CardTitle>Registrar Dividendo</CardTitle>
+        <CardTitle>Registrar Provento</CardTitle>
       </CardHeader>
       <CardContent>
-        <form onSubmit={handleSubmit} className="space-y-4">
-          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-            <div className="space-y-2">
-              <Label htmlFor="dividend-date">Data</Label>
-              <Input
-                id="dividend-date"
-                type="date"
-                value={dividendDate}
-                onChange={(e) => setDividendDate(e.target.value)}
-                required
-              />
-            </div>
-
-            <div className="space-y-2">
-              <Label htmlFor="dividend-stock">Ativo</Label>
-              <Input
-                id="dividend-stock"
-                placeholder="Ex: PETR4"
-                value={stockCode}
-                onChange={(e) => setStockCode(e.target.value)}
-                required
-              />
-            </div>
-
-            <div className="space-y-2">
-              <Label htmlFor="dividend-amount">Valor (R$)</Label>
-              <Input
-                id="dividend-amount"
-                type="number"
-                step="0.01"
-                placeholder="0.00"
-                value={amount}
-                onChange={(e) => setAmount(e.target.value)}
-                required
-              />
-            </div>
-          </div>
-
-          <Button 
-            type="submit" 
-            disabled={loading} 
-            className="w-1/2 bg-cyan-600 hover:bg-cyan-700 text-white"
-          >
-            {loading ? "Registrando..." : "Registrar Dividendo"}
-          </Button>
-        </form>
+        {form}
       </CardContent>
     </Card>
   );
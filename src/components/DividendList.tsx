@@ -1,48 +1,79 @@
+import { useState } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Button } from "@/components/ui/button";
-import { Trash2 } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { ToastAction } from "@/components/ui/toast";
+import { Pencil, Trash2 } from "lucide-react";
 import { format } from "date-fns";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
+import { formatCurrency } from "@/lib/decimal";
+import { INCOME_TYPE_LABELS, INCOME_TYPES, isIncomeType } from "@/lib/portfolio";
+import DividendForm from "@/components/DividendForm";
 
 interface Dividend {
   id: string;
   stock_code: string;
   amount: number;
   dividend_date: string;
+  income_type: string;
+  gross_amount: number;
+  withholding_tax: number;
 }
 
 interface DividendListProps {
   dividends: Dividend[];
   onDelete?: () => void;
+  onUpdate?: () => void;
 }
 
-const DividendList = ({ dividends, onDelete }: DividendListProps) => {
+const DividendList = ({ dividends, onDelete, onUpdate }: DividendListProps) => {
+  const [typeFilter, setTypeFilter] = useState("all");
+  const [editingDividend, setEditingDividend] = useState<Dividend | null>(null);
   const { toast } = useToast();
 
-  const formatCurrency = (value: number) => {
-    return value.toLocaleString("pt-BR", {
-      minimumFractionDigits: 2,
-      maximumFractionDigits: 2,
-    });
+  const filteredDividends = typeFilter === "all"
+    ? dividends
+    : dividends.filter((dividend) => dividend.income_type === typeFilter);
+
+  const setDeletedAt = async (id: string, deletedAt: string | null) => {
+    const { error } = await supabase
+      .from("dividends")
+      .update({ deleted_at: deletedAt })
+      .eq("id", id);
+
+    if (error) throw error;
+    if (onDelete) onDelete();
   };
 
-  const handleDelete = async (id: string) => {
+  const handleUndo = async (id: string) => {
     try {
-      const { error } = await supabase
-        .from("dividends")
-        .delete()
-        .eq("id", id);
+      await setDeletedAt(id, null);
+    } catch (error: any) {
+      toast({
+        title: "Erro ao desfazer",
+        description: error.message,
+        variant: "destructive",
+      });
+    }
+  };
 
-      if (error) throw error;
+  const handleDelete = async (id: string) => {
+    try {
+      await setDeletedAt(id, new Date().toISOString());
 
       toast({
-        title: "Dividendo excluído",
-        description: "O dividendo foi removido com sucesso",
+        title: "Provento excluído",
+        description: "O provento foi movido para a lixeira",
+        action: (
+          <ToastAction altText="Desfazer exclusão" onClick={() => handleUndo(id)}>
+            Desfazer
+          </ToastAction>
+        ),
       });
-
-      if (onDelete) onDelete();
     } catch (error: any) {
       toast({
         title: "Erro ao excluir",
@@ -55,12 +86,27 @@ const DividendList = ({ dividends, onDelete }: DividendListProps) => {
   return (
     <Card>
       <CardHeader>
-        <CardTitle>Histórico de Dividendos</CardTitle>
+        <div className="flex items-center justify-between gap-4">
+          <CardTitle>Histórico de Proventos</CardTitle>
+          <Select value={typeFilter} onValueChange={setTypeFilter}>
+            <SelectTrigger className="w-48">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">Todos os tipos</SelectItem>
+              {INCOME_TYPES.map((type) => (
+                <SelectItem key={type} value={type}>
+                  {INCOME_TYPE_LABELS[type]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
       </CardHeader>
       <CardContent>
-        {dividends.length === 0 ? (
+        {filteredDividends.length === 0 ? (
           <p className="text-muted-foreground text-center py-8">
-            Nenhum dividendo registrado
+            Nenhum provento registrado
           </p>
         ) : (
           <div className="rounded-md border">
@@ -69,12 +115,15 @@ const DividendList = ({ dividends, onDelete }: DividendListProps) => {
                 <TableRow>
                   <TableHead>Data</TableHead>
                   <TableHead>Ativo</TableHead>
-                  <TableHead className="text-right">Valor</TableHead>
+                  <TableHead>Tipo</TableHead>
+                  <TableHead className="text-right">Bruto</TableHead>
+                  <TableHead className="text-right">IR Retido</TableHead>
+                  <TableHead className="text-right">Líquido</TableHead>
                   <TableHead className="text-right">Ações</TableHead>
                 </TableRow>
               </TableHeader>
               <TableBody>
-                {dividends.map((dividend) => (
+                {filteredDividends.map((dividend) => (
                   <TableRow key={dividend.id}>
                     <TableCell>
                       {format(new Date(dividend.dividend_date), "dd/MM/yyyy")}
@@ -82,10 +131,29 @@ const DividendList = ({ dividends, onDelete }: DividendListProps) => {
                     <TableCell className="font-semibold">
                       {dividend.stock_code}
                     </TableCell>
+                    <TableCell>
+                      <Badge variant="outline">
+                        {isIncomeType(dividend.income_type) ? INCOME_TYPE_LABELS[dividend.income_type] : dividend.income_type}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="text-right">
+                      R$ {formatCurrency(dividend.gross_amount)}
+                    </TableCell>
+                    <TableCell className="text-right text-muted-foreground">
+                      {dividend.withholding_tax > 0 ? `R$ ${formatCurrency(dividend.withholding_tax)}` : "-"}
+                    </TableCell>
                     <TableCell className="text-right text-success font-semibold">
                       R$ {formatCurrency(dividend.amount)}
                     </TableCell>
                     <TableCell className="text-right">
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => setEditingDividend(dividend)}
+                        className="h-8 w-8"
+                      >
+                        <Pencil className="h-4 w-4" />
+                      </Button>
                       <Button
                         variant="ghost"
                         size="icon"
@@ -102,6 +170,24 @@ const DividendList = ({ dividends, onDelete }: DividendListProps) => {
           </div>
         )}
       </CardContent>
+
+      <Dialog open={!!editingDividend} onOpenChange={(open) => !open && setEditingDividend(null)}>
+        <DialogContent className="sm:max-w-[640px]">
+          <DialogHeader>
+            <DialogTitle>Editar Provento</DialogTitle>
+          </DialogHeader>
+          {editingDividend && (
+            <DividendForm
+              key={editingDividend.id}
+              dividend={editingDividend}
+              onSuccess={() => {
+                setEditingDividend(null);
+                if (onUpdate) onUpdate();
+              }}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
     </Card>
   );
 };
@@ -0,0 +1,89 @@
+import { useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { formatCurrency } from "@/lib/decimal";
+import { FEE_FIELDS, FEE_LABELS, summarizeFees, TransactionInput } from "@/lib/portfolio";
+
+type FeePeriod = "month" | "year";
+
+interface FeeSummaryProps {
+  transactions: TransactionInput[];
+}
+
+const PERIOD_LABELS: { [key in FeePeriod]: string } = {
+  month: "Por mês",
+  year: "Por ano",
+};
+
+const formatPeriod = (period: string) => {
+  const [year, month] = period.split("-");
+  return month ? `${month}/${year}` : year;
+};
+
+const FeeSummary = ({ transactions }: FeeSummaryProps) => {
+  const [period, setPeriod] = useState<FeePeriod>("month");
+
+  const summaries = summarizeFees(transactions, period);
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle>Custos Operacionais</CardTitle>
+          <CardDescription>
+            Taxas pagas nas compras e vendas. Já estão somadas ao custo das compras e descontadas do valor das vendas.
+          </CardDescription>
+        </div>
+        <Select value={period} onValueChange={(value) => setPeriod(value as FeePeriod)}>
+          <SelectTrigger className="w-32">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {Object.entries(PERIOD_LABELS).map(([value, label]) => (
+              <SelectItem key={value} value={value}>
+                {label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </CardHeader>
+      <CardContent>
+        {summaries.length === 0 ? (
+          <p className="text-muted-foreground text-center py-8">
+            Nenhuma taxa registrada ainda
+          </p>
+        ) : (
+          <div className="rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>{period === "month" ? "Mês" : "Ano"}</TableHead>
+                  <TableHead className="text-right">Operações</TableHead>
+                  {FEE_FIELDS.map((field) => (
+                    <TableHead key={field} className="text-right">{FEE_LABELS[field]}</TableHead>
+                  ))}
+                  <TableHead className="text-right">Total</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {summaries.map((summary) => (
+                  <TableRow key={summary.period}>
+                    <TableCell className="font-semibold">{formatPeriod(summary.period)}</TableCell>
+                    <TableCell className="text-right">{summary.transactions}</TableCell>
+                    {FEE_FIELDS.map((field) => (
+                      <TableCell key={field} className="text-right">R$ {formatCurrency(summary[field])}</TableCell>
+                    ))}
+                    <TableCell className="text-right font-semibold">R$ {formatCurrency(summary.total)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default FeeSummary;
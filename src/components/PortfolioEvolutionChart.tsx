@@ -0,0 +1,157 @@
+import { useMemo, useState } from "react";
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts";
+import { format, parseISO } from "date-fns";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  ChartConfig,
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+} from "@/components/ui/chart";
+import { formatCurrency } from "@/lib/decimal";
+import {
+  buildPortfolioEvolution,
+  CorporateEventInput,
+  DividendInput,
+  EVOLUTION_RANGE_LABELS,
+  EVOLUTION_RANGES,
+  EvolutionRange,
+  evolutionRangeStart,
+  isTickerMove,
+  Portfolio,
+  TransactionInput,
+} from "@/lib/portfolio";
+import { closeOn, historyStartDates } from "@/lib/quotes";
+import { usePriceHistory } from "@/hooks/use-price-history";
+
+interface PortfolioEvolutionChartProps {
+  portfolio: Portfolio;
+  transactions: TransactionInput[];
+  dividends: DividendInput[];
+  corporateEvents: CorporateEventInput[];
+}
+
+const chartConfig = {
+  invested: { label: "Capital investido", color: "hsl(var(--chart-2))" },
+  marketValue: { label: "Valor de mercado", color: "hsl(var(--chart-1))" },
+  marketValueWithDividends: { label: "Mercado + proventos", color: "hsl(var(--chart-3))" },
+} satisfies ChartConfig;
+
+const PortfolioEvolutionChart = ({ portfolio, transactions, dividends, corporateEvents }: PortfolioEvolutionChartProps) => {
+  const [range, setRange] = useState<EvolutionRange>("1A");
+
+  // A position that moved to a new ticker is priced under it from the event on
+  const startDates = useMemo(() => {
+    const starts = historyStartDates(transactions);
+    corporateEvents.filter(isTickerMove).forEach(event => {
+      const date = new Date(event.event_date);
+      if (!starts[event.new_ticker!] || date < starts[event.new_ticker!]) starts[event.new_ticker!] = date;
+    });
+    return starts;
+  }, [transactions, corporateEvents]);
+
+  const { history, errors, loading } = usePriceHistory(startDates);
+
+  const { costBasisMethod, assetClasses, quantityPrecision } = portfolio;
+  const points = useMemo(
+    () => loading
+      ? []
+      : buildPortfolioEvolution(
+        transactions,
+        dividends,
+        { costBasisMethod, assetClasses, quantityPrecision, corporateEvents },
+        (ticker, day) => history[ticker] ? closeOn(history[ticker], day) : null,
+        evolutionRangeStart(range),
+      ),
+    [loading, transactions, dividends, costBasisMethod, assetClasses, quantityPrecision, corporateEvents, history, range],
+  );
+
+  const missingHistory = Object.keys(errors).sort();
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle>Evolução do Patrimônio</CardTitle>
+          <CardDescription>
+            Capital investido, valor de mercado das posições e valor somado aos proventos líquidos recebidos
+          </CardDescription>
+        </div>
+        <div className="flex gap-1">
+          {EVOLUTION_RANGES.map((value) => (
+            <Button
+              key={value}
+              size="sm"
+              variant={range === value ? "default" : "outline"}
+              onClick={() => setRange(value)}
+            >
+              {EVOLUTION_RANGE_LABELS[value]}
+            </Button>
+          ))}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {loading ? (
+          <Skeleton className="h-[300px] w-full" />
+        ) : points.length === 0 ? (
+          <p className="text-muted-foreground text-center py-8">
+            Registre operações para acompanhar a evolução do patrimônio
+          </p>
+        ) : (
+          <ChartContainer config={chartConfig} className="aspect-auto h-[300px] w-full">
+            <LineChart data={points} margin={{ left: 12, right: 12 }}>
+              <CartesianGrid vertical={false} />
+              <XAxis
+                dataKey="date"
+                tickLine={false}
+                axisLine={false}
+                minTickGap={32}
+                tickFormatter={(value: string) => format(parseISO(value), "dd/MM/yy")}
+              />
+              <YAxis
+                tickLine={false}
+                axisLine={false}
+                width={80}
+                tickFormatter={(value: number) => `R$ ${formatCurrency(value).replace(/,\d+$/, "")}`}
+              />
+              <ChartTooltip
+                content={
+                  <ChartTooltipContent
+                    labelFormatter={(_, payload) => format(parseISO(payload[0].payload.date), "dd/MM/yyyy")}
+                    formatter={(value, name) => (
+                      <div className="flex w-full justify-between gap-4">
+                        <span className="text-muted-foreground">{chartConfig[name as keyof typeof chartConfig].label}</span>
+                        <span className="font-mono font-medium">R$ {formatCurrency(value as number)}</span>
+                      </div>
+                    )}
+                  />
+                }
+              />
+              <ChartLegend content={<ChartLegendContent />} />
+              <Line dataKey="invested" type="stepAfter" stroke="var(--color-invested)" strokeWidth={2} dot={false} />
+              <Line dataKey="marketValue" type="monotone" stroke="var(--color-marketValue)" strokeWidth={2} dot={false} />
+              <Line
+                dataKey="marketValueWithDividends"
+                type="monotone"
+                stroke="var(--color-marketValueWithDividends)"
+                strokeWidth={2}
+                dot={false}
+              />
+            </LineChart>
+          </ChartContainer>
+        )}
+        {missingHistory.length > 0 && (
+          <p className="text-xs text-muted-foreground">
+            Sem histórico de preços para {missingHistory.join(", ")}; esses ativos aparecem pelo preço médio.
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default PortfolioEvolutionChart;
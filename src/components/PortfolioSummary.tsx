@@ -1,135 +1,50 @@
-import { useEffect, useState } from "react";
+import { Fragment, ReactNode } from "react";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
-import { TrendingUp, Wallet, Activity, TrendingDown } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { TrendingUp, Wallet, Activity, TrendingDown, RefreshCw } from "lucide-react";
+import { format } from "date-fns";
 import { Skeleton } from "@/components/ui/skeleton";
-
-interface Transaction {
-  transaction_type: "buy" | "sell";
-  quantity: number;
-  total_value: number;
-  stock_code: string;
-  price_per_share: number;
-  transaction_date: string;
-}
-
-interface Dividend {
-  stock_code: string;
-  amount: number;
-  dividend_date: string;
-}
+import { Badge } from "@/components/ui/badge";
+import AssetClassSelect from "@/components/AssetClassSelect";
+import {
+  divide,
+  formatCurrency,
+  formatPercent,
+  formatQuantity,
+  multiply,
+  percentage,
+  subtract,
+  sum,
+  sumBy,
+} from "@/lib/decimal";
+import { ASSET_CLASS_LABELS, ASSET_CLASSES, Portfolio } from "@/lib/portfolio";
+import { QUOTE_PROVIDER_LABELS } from "@/lib/quotes";
+import { useQuotes } from "@/hooks/use-quotes";
 
 interface PortfolioSummaryProps {
-  transactions: Transaction[];
-  dividends: Dividend[];
-}
-
-interface StockData {
-  currentPrice: number;
-  loading: boolean;
+  portfolio: Portfolio;
+  onAssetsChange?: () => void;
 }
 
-const PortfolioSummary = ({ transactions, dividends }: PortfolioSummaryProps) => {
-  const [stockPrices, setStockPrices] = useState<{ [key: string]: StockData }>({});
+const PortfolioSummary = ({ portfolio, onAssetsChange }: PortfolioSummaryProps) => {
+  const activeStocks = portfolio.positions;
+  const { providerName, quotes, updatedAt, fetching, refresh } = useQuotes(activeStocks.map(({ stockCode }) => stockCode));
 
-  const formatCurrency = (value: number) => {
-    return value.toLocaleString("pt-BR", {
-      minimumFractionDigits: 2,
-      maximumFractionDigits: 2,
-    });
+  // Position math runs on exact decimals and uses the total cost rather than
+  // average price times quantity, so cents don't drift. Shorts have negative
+  // quantity and cost, so the same formula gives their result.
+  const calculateResultInReais = (quantity: number, totalCost: number, currentPrice: number, dividends: number) => {
+    return subtract(sum([multiply(quantity, currentPrice), dividends]), totalCost);
   };
 
-  // Calculate portfolio by stock
-  const portfolio: { [key: string]: { quantity: number; avgPrice: number; totalInvested: number; firstPurchaseDate: Date | null; totalDividends: number } } = {};
-  
-  transactions.forEach(t => {
-    if (!portfolio[t.stock_code]) {
-      portfolio[t.stock_code] = { quantity: 0, avgPrice: 0, totalInvested: 0, firstPurchaseDate: null, totalDividends: 0 };
-    }
-    
-    if (t.transaction_type === "buy") {
-      const currentTotal = portfolio[t.stock_code].quantity * portfolio[t.stock_code].avgPrice;
-      const newTotal = currentTotal + t.total_value;
-      portfolio[t.stock_code].quantity += t.quantity;
-      portfolio[t.stock_code].avgPrice = newTotal / portfolio[t.stock_code].quantity;
-      portfolio[t.stock_code].totalInvested += t.total_value;
-      
-      const transactionDate = new Date(t.transaction_date);
-      if (!portfolio[t.stock_code].firstPurchaseDate || transactionDate < portfolio[t.stock_code].firstPurchaseDate!) {
-        portfolio[t.stock_code].firstPurchaseDate = transactionDate;
-      }
-    } else {
-      portfolio[t.stock_code].quantity -= t.quantity;
-    }
-  });
-
-  // Add dividends to portfolio
-  dividends.forEach(d => {
-    if (portfolio[d.stock_code]) {
-      portfolio[d.stock_code].totalDividends += d.amount;
-    }
-  });
-
-  const activeStocks = Object.entries(portfolio).filter(([_, data]) => data.quantity > 0);
-
-  // Fetch current prices for all active stocks using Brapi API
-  useEffect(() => {
-    const fetchPrices = async () => {
-      if (activeStocks.length === 0) return;
-
-      const newPrices: { [key: string]: StockData } = {};
-      
-      for (const [stockCode] of activeStocks) {
-        newPrices[stockCode] = { currentPrice: 0, loading: true };
-      }
-      setStockPrices(newPrices);
-
-      // Fetch all stock prices from Brapi API
-      const tickers = activeStocks.map(([code]) => code).join(',');
-      
-      try {
-        const response = await fetch(`https://brapi.dev/api/quote/${tickers}`);
-        
-        if (!response.ok) {
-          throw new Error("Erro ao buscar cotações");
-        }
-
-        const data = await response.json();
-        
-        if (data.results) {
-          const updatedPrices: { [key: string]: StockData } = {};
-          
-          data.results.forEach((stock: any) => {
-            updatedPrices[stock.symbol] = {
-              currentPrice: stock.regularMarketPrice || 0,
-              loading: false
-            };
-          });
-
-          setStockPrices(updatedPrices);
-        }
-      } catch (error) {
-        // On error, mark all as failed
-        const errorPrices: { [key: string]: StockData } = {};
-        for (const [stockCode] of activeStocks) {
-          errorPrices[stockCode] = { currentPrice: 0, loading: false };
-        }
-        setStockPrices(errorPrices);
-      }
-    };
-
-    fetchPrices();
-  }, [transactions]);
-
-  const calculateReturn = (avgPrice: number, currentPrice: number, dividends: number, quantity: number) => {
+  const calculateReturn = (totalCost: number, currentPrice: number, dividends: number, quantity: number) => {
     if (currentPrice === 0) return 0;
-    const totalInvested = avgPrice * quantity;
-    const currentValue = currentPrice * quantity;
-    return ((currentValue + dividends - totalInvested) / totalInvested) * 100;
+    return percentage(calculateResultInReais(quantity, totalCost, currentPrice, dividends), Math.abs(totalCost));
   };
 
   const calculateCurrentValue = (quantity: number, currentPrice: number) => {
-    return quantity * currentPrice;
+    return multiply(quantity, currentPrice);
   };
 
   const calculateMonthlyReturn = (firstPurchaseDate: Date | null, currentReturn: number) => {
@@ -140,36 +55,26 @@ const PortfolioSummary = ({ transactions, dividends }: PortfolioSummaryProps) =>
     const diffDays = Math.ceil(diffTime / (1000 * 60 * 60 * 24));
     const diffMonths = diffDays / 30;
     
-    if (diffMonths === 0) return 0;
-    return currentReturn / diffMonths;
+    return divide(currentReturn, diffMonths);
   };
 
-  const calculateResultInReais = (quantity: number, avgPrice: number, currentPrice: number, dividends: number) => {
-    const totalInvested = quantity * avgPrice;
-    const currentValue = quantity * currentPrice;
-    return (currentValue + dividends) - totalInvested;
-  };
+  // Positions without a quote are left out of the current value and the
+  // result, rather than being counted at R$ 0,00
+  const pricedStocks = activeStocks.filter(({ stockCode }) => quotes[stockCode].price !== null);
+  const unpricedStocks = activeStocks.filter(({ stockCode }) => quotes[stockCode].error);
 
-  // Calculate total portfolio value and return (including dividends)
-  const totalCurrentValue = activeStocks.reduce((sum, [code, data]) => {
-    const stockPrice = stockPrices[code];
-    if (!stockPrice || stockPrice.loading) return sum;
-    return sum + calculateCurrentValue(data.quantity, stockPrice.currentPrice) + data.totalDividends;
-  }, 0);
+  // Calculate total portfolio value and return (including net income after withholding)
+  const totalCurrentValue = sumBy(pricedStocks, data =>
+    sum([calculateCurrentValue(data.quantity, quotes[data.stockCode].price!), data.dividends]));
 
-  const totalPortfolioInvested = activeStocks.reduce((sum, [_, data]) => {
-    return sum + data.totalInvested;
-  }, 0);
+  const totalPortfolioInvested = portfolio.totalInvested;
+  const pricedInvested = sumBy(pricedStocks, p => p.totalCost);
+  const portfolioResult = subtract(totalCurrentValue, pricedInvested);
 
-  const portfolioReturn = totalPortfolioInvested > 0 
-    ? ((totalCurrentValue - totalPortfolioInvested) / totalPortfolioInvested) * 100 
-    : 0;
+  const portfolioReturn = percentage(portfolioResult, pricedInvested);
 
   const isPortfolioPositive = portfolioReturn >= 0;
-  const allPricesLoaded = activeStocks.every(([code]) => {
-    const price = stockPrices[code];
-    return price && !price.loading;
-  });
+  const allPricesLoaded = activeStocks.every(({ stockCode }) => !quotes[stockCode].loading);
 
   return (
     <div className="space-y-4">
@@ -192,7 +97,14 @@ const PortfolioSummary = ({ transactions, dividends }: PortfolioSummaryProps) =>
           </CardHeader>
           <CardContent>
             {allPricesLoaded ? (
-              <div className="text-2xl font-bold">R$ {formatCurrency(totalCurrentValue)}</div>
+              <>
+                <div className="text-2xl font-bold">R$ {formatCurrency(totalCurrentValue)}</div>
+                {unpricedStocks.length > 0 && (
+                  <p className="text-xs text-loss">
+                    Sem cotação: {unpricedStocks.map(({ stockCode }) => stockCode).join(", ")}
+                  </p>
+                )}
+              </>
             ) : (
               <Skeleton className="h-8 w-32" />
             )}
@@ -212,10 +124,10 @@ const PortfolioSummary = ({ transactions, dividends }: PortfolioSummaryProps) =>
             {allPricesLoaded ? (
               <>
                 <div className={`text-2xl font-bold ${isPortfolioPositive ? 'text-success' : 'text-loss'}`}>
-                  {isPortfolioPositive ? '+' : ''}{portfolioReturn.toFixed(2)}%
+                  {isPortfolioPositive ? '+' : ''}{formatPercent(portfolioReturn)}%
                 </div>
                 <p className={`text-xs ${isPortfolioPositive ? 'text-success' : 'text-loss'}`}>
-                  {isPortfolioPositive ? '+' : '-'} R$ {formatCurrency(Math.abs(totalCurrentValue - totalPortfolioInvested))}
+                  {isPortfolioPositive ? '+' : '-'} R$ {formatCurrency(Math.abs(portfolioResult))}
                 </p>
               </>
             ) : (
@@ -230,8 +142,20 @@ const PortfolioSummary = ({ transactions, dividends }: PortfolioSummaryProps) =>
 
       {/* Portfolio Details Table */}
       <Card>
-        <CardHeader>
-          <CardTitle>Ativos</CardTitle>
+        <CardHeader className="flex flex-row items-start justify-between space-y-0">
+          <div className="space-y-1.5">
+            <CardTitle>Ativos</CardTitle>
+            <CardDescription>
+              {QUOTE_PROVIDER_LABELS[providerName]}
+              {updatedAt && ` · cotações de ${format(updatedAt, "dd/MM/yyyy HH:mm")}`}
+            </CardDescription>
+          </div>
+          {activeStocks.length > 0 && (
+            <Button variant="outline" size="sm" onClick={refresh} disabled={fetching}>
+              <RefreshCw className={`h-4 w-4 mr-2 ${fetching ? "animate-spin" : ""}`} />
+              Atualizar
+            </Button>
+          )}
         </CardHeader>
         <CardContent>
           {activeStocks.length === 0 ? (
@@ -244,86 +168,116 @@ const PortfolioSummary = ({ transactions, dividends }: PortfolioSummaryProps) =>
                 <TableHeader>
                   <TableRow>
                     <TableHead>Ativo</TableHead>
+                    <TableHead>Classe</TableHead>
                     <TableHead className="text-right">Qtd.</TableHead>
                     <TableHead className="text-right">Preço Médio</TableHead>
                     <TableHead className="text-right">Cotação Atual</TableHead>
                     <TableHead className="text-right">Valor Atual</TableHead>
-                    <TableHead className="text-right">Dividendos</TableHead>
+                    <TableHead className="text-right">Proventos Líq.</TableHead>
                     <TableHead className="text-right">Resultado</TableHead>
                     <TableHead className="text-right">Retorno</TableHead>
                     <TableHead className="text-right">Retorno/Mês</TableHead>
                   </TableRow>
                 </TableHeader>
                 <TableBody>
-                  {activeStocks.map(([code, data]) => {
-                    const stockPrice = stockPrices[code];
-                    const isLoading = !stockPrice || stockPrice.loading;
-                    const currentPrice = stockPrice?.currentPrice || 0;
-                    const returnPercent = calculateReturn(data.avgPrice, currentPrice, data.totalDividends, data.quantity);
-                    const currentValue = calculateCurrentValue(data.quantity, currentPrice);
-                    const resultInReais = calculateResultInReais(data.quantity, data.avgPrice, currentPrice, data.totalDividends);
-                    const monthlyReturn = calculateMonthlyReturn(data.firstPurchaseDate, returnPercent);
-                    const isPositive = returnPercent >= 0;
-                    const isMonthlyPositive = monthlyReturn >= 0;
-                    const isResultPositive = resultInReais >= 0;
+                  {ASSET_CLASSES.map((assetClass) => {
+                    const classPositions = activeStocks.filter(p => p.assetClass === assetClass);
+                    if (classPositions.length === 0) return null;
+
+                    const classInvested = sumBy(classPositions, p => p.totalCost);
+                    const classAllocation = percentage(classInvested, totalPortfolioInvested);
 
                     return (
-                      <TableRow key={code}>
-                        <TableCell className="font-semibold">{code}</TableCell>
-                        <TableCell className="text-right">{data.quantity}</TableCell>
-                        <TableCell className="text-right">R$ {formatCurrency(data.avgPrice)}</TableCell>
-                        <TableCell className="text-right">
-                          {isLoading ? (
-                            <Skeleton className="h-5 w-20 ml-auto" />
-                          ) : (
-                            `R$ ${formatCurrency(currentPrice)}`
-                          )}
-                        </TableCell>
-                        <TableCell className="text-right font-semibold">
-                          {isLoading ? (
-                            <Skeleton className="h-5 w-24 ml-auto" />
-                          ) : (
-                            `R$ ${formatCurrency(currentValue)}`
-                          )}
-                        </TableCell>
-                        <TableCell className="text-right text-success font-semibold">
-                          R$ {formatCurrency(data.totalDividends)}
-                        </TableCell>
-                        <TableCell className="text-right">
-                          {isLoading ? (
-                            <Skeleton className="h-5 w-24 ml-auto" />
-                          ) : (
-                            <div className={`font-semibold ${isResultPositive ? 'text-success' : 'text-loss'}`}>
-                              {isResultPositive ? '+' : ''} R$ {formatCurrency(Math.abs(resultInReais))}
-                            </div>
-                          )}
-                        </TableCell>
-                        <TableCell className="text-right">
-                          {isLoading ? (
-                            <Skeleton className="h-5 w-20 ml-auto" />
-                          ) : (
-                            <div className={`flex items-center justify-end gap-1 font-semibold ${isPositive ? 'text-success' : 'text-loss'}`}>
-                              {isPositive ? (
-                                <TrendingUp className="h-4 w-4" />
-                              ) : (
-                                <TrendingDown className="h-4 w-4" />
-                              )}
-                              <span>
-                                {isPositive ? '+' : ''}{returnPercent.toFixed(2)}%
-                              </span>
-                            </div>
-                          )}
-                        </TableCell>
-                        <TableCell className="text-right">
-                          {isLoading ? (
-                            <Skeleton className="h-5 w-20 ml-auto" />
-                          ) : (
-                            <div className={`font-semibold ${isMonthlyPositive ? 'text-success' : 'text-loss'}`}>
-                              {isMonthlyPositive ? '+' : ''}{monthlyReturn.toFixed(2)}%
-                            </div>
-                          )}
-                        </TableCell>
-                      </TableRow>
+                      <Fragment key={assetClass}>
+                        <TableRow className="bg-muted/50 hover:bg-muted/50">
+                          <TableCell colSpan={10} className="font-semibold">
+                            {ASSET_CLASS_LABELS[assetClass]}
+                            <span className="ml-2 text-xs font-normal text-muted-foreground">
+                              R$ {formatCurrency(classInvested)} investidos ({formatPercent(classAllocation, 1)}%)
+                            </span>
+                          </TableCell>
+                        </TableRow>
+                        {classPositions.map((data) => {
+                          const code = data.stockCode;
+                          const quote = quotes[code];
+                          const currentPrice = quote.price ?? 0;
+                          // Cells that depend on the quote wait for it, or show a dash without one
+                          const quoted = (content: ReactNode, width: string) => quote.loading
+                            ? <Skeleton className={`h-5 ${width} ml-auto`} />
+                            : quote.price === null ? <span className="text-muted-foreground">—</span> : content;
+                          const returnPercent = calculateReturn(data.totalCost, currentPrice, data.dividends, data.quantity);
+                          const currentValue = calculateCurrentValue(data.quantity, currentPrice);
+                          const resultInReais = calculateResultInReais(data.quantity, data.totalCost, currentPrice, data.dividends);
+                          const monthlyReturn = calculateMonthlyReturn(data.firstPurchaseDate, returnPercent);
+                          const isPositive = returnPercent >= 0;
+                          const isMonthlyPositive = monthlyReturn >= 0;
+                          const isResultPositive = resultInReais >= 0;
+
+                          return (
+                            <TableRow key={code}>
+                              <TableCell className="font-semibold">
+                                <div className="flex items-center gap-2">
+                                  {code}
+                                  {data.side === "short" && <Badge variant="destructive">Vendido</Badge>}
+                                </div>
+                              </TableCell>
+                              <TableCell>
+                                <AssetClassSelect ticker={code} value={data.assetClass} onChange={onAssetsChange} />
+                              </TableCell>
+                              <TableCell className="text-right">
+                                {formatQuantity(data.quantity, portfolio.quantityPrecision[data.assetClass])}
+                              </TableCell>
+                              <TableCell className="text-right">R$ {formatCurrency(data.avgPrice)}</TableCell>
+                              <TableCell className="text-right">
+                                {quote.loading ? (
+                                  <Skeleton className="h-5 w-20 ml-auto" />
+                                ) : quote.price === null ? (
+                                  <span className="text-xs text-destructive" title={quote.error?.message}>Indisponível</span>
+                                ) : (
+                                  `R$ ${formatCurrency(currentPrice)}`
+                                )}
+                              </TableCell>
+                              <TableCell className="text-right font-semibold">
+                                {quoted(`R$ ${formatCurrency(currentValue)}`, "w-24")}
+                              </TableCell>
+                              <TableCell className="text-right text-success font-semibold">
+                                R$ {formatCurrency(data.dividends)}
+                              </TableCell>
+                              <TableCell className="text-right">
+                                {quoted(
+                                  <div className={`font-semibold ${isResultPositive ? 'text-success' : 'text-loss'}`}>
+                                    {isResultPositive ? '+' : ''} R$ {formatCurrency(Math.abs(resultInReais))}
+                                  </div>,
+                                  "w-24",
+                                )}
+                              </TableCell>
+                              <TableCell className="text-right">
+                                {quoted(
+                                  <div className={`flex items-center justify-end gap-1 font-semibold ${isPositive ? 'text-success' : 'text-loss'}`}>
+                                    {isPositive ? (
+                                      <TrendingUp className="h-4 w-4" />
+                                    ) : (
+                                      <TrendingDown className="h-4 w-4" />
+                                    )}
+                                    <span>
+                                      {isPositive ? '+' : ''}{formatPercent(returnPercent)}%
+                                    </span>
+                                  </div>,
+                                  "w-20",
+                                )}
+                              </TableCell>
+                              <TableCell className="text-right">
+                                {quoted(
+                                  <div className={`font-semibold ${isMonthlyPositive ? 'text-success' : 'text-loss'}`}>
+                                    {isMonthlyPositive ? '+' : ''}{formatPercent(monthlyReturn)}%
+                                  </div>,
+                                  "w-20",
+                                )}
+                              </TableCell>
+                            </TableRow>
+                          );
+                        })}
+                      </Fragment>
                     );
                   })}
                 </TableBody>
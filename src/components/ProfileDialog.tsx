@@ -4,14 +4,35 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { User } from "lucide-react";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
+import BackupPanel from "@/components/BackupPanel";
+import {
+  ASSET_CLASS_LABELS,
+  ASSET_CLASSES,
+  COST_BASIS_METHOD_LABELS,
+  CostBasisMethod,
+  DEFAULT_COST_BASIS_METHOD,
+  DEFAULT_QUANTITY_PRECISION,
+  isCostBasisMethod,
+  MAX_QUANTITY_PRECISION,
+  QuantityPrecision,
+  resolveQuantityPrecision,
+} from "@/lib/portfolio";
 
-const ProfileDialog = () => {
+interface ProfileDialogProps {
+  onProfileUpdate?: () => void;
+  onDataRestore?: () => void;
+}
+
+const ProfileDialog = ({ onProfileUpdate, onDataRestore }: ProfileDialogProps) => {
   const [open, setOpen] = useState(false);
   const [username, setUsername] = useState("");
   const [avatarUrl, setAvatarUrl] = useState("");
+  const [costBasisMethod, setCostBasisMethod] = useState<CostBasisMethod>(DEFAULT_COST_BASIS_METHOD);
+  const [quantityPrecision, setQuantityPrecision] = useState<QuantityPrecision>(DEFAULT_QUANTITY_PRECISION);
   const [newPassword, setNewPassword] = useState("");
   const [confirmPassword, setConfirmPassword] = useState("");
   const [loading, setLoading] = useState(false);
@@ -30,12 +51,16 @@ const ProfileDialog = () => {
 
       const { data: profile } = await supabase
         .from("profiles")
-        .select("username")
+        .select("username, cost_basis_method, quantity_precision")
         .eq("id", user.id)
         .single();
 
       if (profile) {
         setUsername(profile.username || "");
+        if (isCostBasisMethod(profile.cost_basis_method)) {
+          setCostBasisMethod(profile.cost_basis_method);
+        }
+        setQuantityPrecision(resolveQuantityPrecision(profile.quantity_precision));
       }
     } catch (error: any) {
       console.error("Error fetching profile:", error);
@@ -70,6 +95,64 @@ const ProfileDialog = () => {
     }
   };
 
+  const handleUpdateCostBasisMethod = async () => {
+    setLoading(true);
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return;
+
+      const { error } = await supabase
+        .from("profiles")
+        .update({ cost_basis_method: costBasisMethod })
+        .eq("id", user.id);
+
+      if (error) throw error;
+
+      toast({
+        title: "Método de custo atualizado",
+        description: `Carteira e histórico agora usam ${COST_BASIS_METHOD_LABELS[costBasisMethod]}`,
+      });
+      if (onProfileUpdate) onProfileUpdate();
+    } catch (error: any) {
+      toast({
+        title: "Erro ao atualizar método de custo",
+        description: error.message,
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleUpdateQuantityPrecision = async () => {
+    setLoading(true);
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return;
+
+      const { error } = await supabase
+        .from("profiles")
+        .update({ quantity_precision: quantityPrecision })
+        .eq("id", user.id);
+
+      if (error) throw error;
+
+      toast({
+        title: "Casas decimais atualizadas",
+        description: "As quantidades agora seguem a precisão de cada classe de ativo",
+      });
+      if (onProfileUpdate) onProfileUpdate();
+    } catch (error: any) {
+      toast({
+        title: "Erro ao atualizar casas decimais",
+        description: error.message,
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
   const handleChangePassword = async () => {
     if (newPassword !== confirmPassword) {
       toast({
@@ -159,7 +242,7 @@ const ProfileDialog = () => {
           Perfil
         </Button>
       </DialogTrigger>
-      <DialogContent className="sm:max-w-[425px]">
+      <DialogContent className="sm:max-w-[425px] max-h-[90vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle>Meu Perfil</DialogTitle>
         </DialogHeader>
@@ -199,6 +282,58 @@ const ProfileDialog = () => {
             </Button>
           </div>
 
+          <div className="space-y-2">
+            <Label htmlFor="cost-basis-method">Método de apuração de custo</Label>
+            <Select
+              value={costBasisMethod}
+              onValueChange={(value) => setCostBasisMethod(value as CostBasisMethod)}
+              disabled={loading}
+            >
+              <SelectTrigger id="cost-basis-method">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(COST_BASIS_METHOD_LABELS).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>
+                    {label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button onClick={handleUpdateCostBasisMethod} disabled={loading} size="sm">
+              Salvar método
+            </Button>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Casas decimais nas quantidades</Label>
+            <div className="grid grid-cols-2 gap-2">
+              {ASSET_CLASSES.map((assetClass) => (
+                <div key={assetClass} className="flex items-center justify-between gap-2">
+                  <Label htmlFor={`precision-${assetClass}`} className="text-xs font-normal">
+                    {ASSET_CLASS_LABELS[assetClass]}
+                  </Label>
+                  <Input
+                    id={`precision-${assetClass}`}
+                    type="number"
+                    min="0"
+                    max={MAX_QUANTITY_PRECISION}
+                    className="h-8 w-16"
+                    value={quantityPrecision[assetClass]}
+                    onChange={(e) => setQuantityPrecision({
+                      ...quantityPrecision,
+                      [assetClass]: Math.min(MAX_QUANTITY_PRECISION, Math.max(0, parseInt(e.target.value) || 0)),
+                    })}
+                    disabled={loading}
+                  />
+                </div>
+              ))}
+            </div>
+            <Button onClick={handleUpdateQuantityPrecision} disabled={loading} size="sm">
+              Salvar casas decimais
+            </Button>
+          </div>
+
           <div className="space-y-2">
             <Label>Alterar senha</Label>
             <Input
@@ -219,6 +354,8 @@ const ProfileDialog = () => {
               Alterar senha
             </Button>
           </div>
+
+          <BackupPanel onRestore={onDataRestore} />
         </div>
       </DialogContent>
     </Dialog>
@@ -0,0 +1,188 @@
+import { useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Landmark, Printer, Receipt, TrendingDown } from "lucide-react";
+import { format } from "date-fns";
+import { formatCurrency, sum, sumBy } from "@/lib/decimal";
+import type { Portfolio } from "@/lib/portfolio";
+import { calculateMonthlyTax, Darf, STOCK_SALES_EXEMPTION_LIMIT, TAX_BUCKET_RULES, TAX_BUCKETS } from "@/lib/tax";
+
+interface TaxReportProps {
+  portfolio: Portfolio;
+}
+
+const formatMonth = (month: string) => {
+  const [year, monthNumber] = month.split("-");
+  return `${monthNumber}/${year}`;
+};
+
+const TaxReport = ({ portfolio }: TaxReportProps) => {
+  const [selectedDarf, setSelectedDarf] = useState<Darf | null>(null);
+
+  const months = calculateMonthlyTax(portfolio.sales);
+  const currentYear = new Date().getFullYear().toString();
+  const taxThisYear = sumBy(months.filter(m => m.month.startsWith(currentYear)), m => m.amountPayable);
+  const lastMonth = months.length > 0 ? months[months.length - 1] : null;
+
+  const periodEnd = (month: string) => {
+    const [year, monthNumber] = month.split("-").map(Number);
+    return new Date(year, monthNumber, 0);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="grid gap-4 md:grid-cols-4">
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">IR Devido em {currentYear}</CardTitle>
+            <Landmark className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">R$ {formatCurrency(taxThisYear)}</div>
+          </CardContent>
+        </Card>
+
+        {TAX_BUCKETS.map((bucket) => (
+          <Card key={bucket}>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+              <CardTitle className="text-sm font-medium">Prejuízo a Compensar ({TAX_BUCKET_RULES[bucket].label})</CardTitle>
+              <TrendingDown className="h-4 w-4 text-loss" />
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold">
+                R$ {formatCurrency(lastMonth ? lastMonth.buckets[bucket].lossCarriedOut : 0)}
+              </div>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Imposto de Renda Mensal</CardTitle>
+          <CardDescription>
+            Operações comuns: alíquota de 15%, com isenção para vendas de ações de até R$ {formatCurrency(STOCK_SALES_EXEMPTION_LIMIT)} no mês
+            (ETFs e BDRs não têm isenção). Day trade e fundos imobiliários: alíquota de 20%, sem isenção.
+            Cada categoria compensa apenas os próprios prejuízos. Fundos de investimento e criptoativos não entram neste cálculo.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {months.length === 0 ? (
+            <p className="text-muted-foreground text-center py-8">
+              Nenhuma venda registrada ainda
+            </p>
+          ) : (
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Mês</TableHead>
+                    <TableHead className="text-right">Vendas</TableHead>
+                    {TAX_BUCKETS.map((bucket) => (
+                      <TableHead key={bucket} className="text-right">{TAX_BUCKET_RULES[bucket].label}</TableHead>
+                    ))}
+                    <TableHead className="text-right">Prejuízo Compensado</TableHead>
+                    <TableHead className="text-right">Base de Cálculo</TableHead>
+                    <TableHead className="text-right">Imposto</TableHead>
+                    <TableHead className="text-right">DARF</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {[...months].reverse().map((month) => {
+                    const swing = month.buckets.swing;
+
+                    return (
+                      <TableRow key={month.month}>
+                        <TableCell className="font-semibold">
+                          <div className="flex items-center gap-2">
+                            {formatMonth(month.month)}
+                            {swing.exemptResult > 0 && <Badge variant="secondary">Isento</Badge>}
+                          </div>
+                        </TableCell>
+                        <TableCell className="text-right">R$ {formatCurrency(month.grossSales)}</TableCell>
+                        {TAX_BUCKETS.map((key) => month.buckets[key]).map((bucket) => (
+                          <TableCell key={bucket.bucket} className="text-right">
+                            {bucket.grossSales === 0 ? (
+                              <span className="text-muted-foreground">-</span>
+                            ) : (
+                              <div className={`font-semibold ${bucket.result >= 0 ? 'text-success' : 'text-loss'}`}>
+                                {bucket.result >= 0 ? '+' : '-'} R$ {formatCurrency(Math.abs(bucket.result))}
+                              </div>
+                            )}
+                          </TableCell>
+                        ))}
+                        <TableCell className="text-right">R$ {formatCurrency(month.lossCompensated)}</TableCell>
+                        <TableCell className="text-right">R$ {formatCurrency(month.taxableResult)}</TableCell>
+                        <TableCell className="text-right font-semibold">
+                          R$ {formatCurrency(sum([month.taxDue, month.pendingTaxCarriedIn]))}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {month.darf ? (
+                            <Button variant="outline" size="sm" onClick={() => setSelectedDarf(month.darf)}>
+                              <Receipt className="h-4 w-4 mr-2" />
+                              {format(month.darf.dueDate, "dd/MM/yyyy")}
+                            </Button>
+                          ) : sum([month.taxDue, month.pendingTaxCarriedIn]) > 0 ? (
+                            <span className="text-xs text-muted-foreground">Acumula para o próximo mês</span>
+                          ) : (
+                            <span className="text-muted-foreground">-</span>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={!!selectedDarf} onOpenChange={(open) => !open && setSelectedDarf(null)}>
+        <DialogContent className="sm:max-w-[480px]">
+          <DialogHeader>
+            <DialogTitle>Resumo do DARF</DialogTitle>
+          </DialogHeader>
+          {selectedDarf && (
+            <div className="darf-print space-y-4 py-2">
+              <div className="rounded-md border divide-y">
+                <div className="flex justify-between p-3">
+                  <span className="text-muted-foreground">Período de apuração</span>
+                  <span className="font-semibold">{format(periodEnd(selectedDarf.referenceMonth), "dd/MM/yyyy")}</span>
+                </div>
+                <div className="flex justify-between p-3">
+                  <span className="text-muted-foreground">Código da receita</span>
+                  <span className="font-semibold">{selectedDarf.code}</span>
+                </div>
+                <div className="flex justify-between p-3">
+                  <span className="text-muted-foreground">Data de vencimento</span>
+                  <span className="font-semibold">{format(selectedDarf.dueDate, "dd/MM/yyyy")}</span>
+                </div>
+                <div className="flex justify-between p-3">
+                  <span className="text-muted-foreground">Valor do principal</span>
+                  <span className="font-semibold">R$ {formatCurrency(selectedDarf.amount)}</span>
+                </div>
+                <div className="flex justify-between p-3">
+                  <span className="text-muted-foreground">Valor total</span>
+                  <span className="text-lg font-bold">R$ {formatCurrency(selectedDarf.amount)}</span>
+                </div>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Pagamentos após o vencimento estão sujeitos a multa e juros calculados no Sicalc.
+              </p>
+            </div>
+          )}
+          <Button onClick={() => window.print()}>
+            <Printer className="h-4 w-4 mr-2" />
+            Imprimir
+          </Button>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default TaxReport;
@@ -1,27 +1,119 @@
-import { useState } from "react";
+import { useMemo, useState } from "react";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { useToast } from "@/hooks/use-toast";
 import { supabase } from "@/integrations/supabase/client";
+import type { Json } from "@/integrations/supabase/types";
 import { format } from "date-fns";
+import { formatCurrency, formatQuantity, multiply, roundMoney, sum, sumBy } from "@/lib/decimal";
+import {
+  baseTicker,
+  CorporateEventInput,
+  FEE_FIELDS,
+  FEE_LABELS,
+  FeeField,
+  inferAssetClass,
+  LotSelection,
+  Portfolio,
+  positionOn,
+  quantityPrecisionFor,
+  TransactionFees,
+  TransactionInput,
+  transactionSchemaFor,
+  validationError,
+} from "@/lib/portfolio";
+
+interface EditableTransaction extends Partial<TransactionFees> {
+  id: string;
+  stock_code: string;
+  quantity: number;
+  price_per_share: number;
+  transaction_date: string;
+  notes?: string | null;
+  lot_selections?: LotSelection[] | null;
+}
 
 interface TransactionFormProps {
   type: "buy" | "sell";
+  portfolio: Portfolio;
+  transactions: TransactionInput[];
+  corporateEvents: CorporateEventInput[];
+  transaction?: EditableTransaction;
   onSuccess: () => void;
 }
 
-const TransactionForm = ({ type, onSuccess }: TransactionFormProps) => {
-  const [stockCode, setStockCode] = useState("");
-  const [quantity, setQuantity] = useState("");
-  const [pricePerShare, setPricePerShare] = useState("");
-  const [transactionDate, setTransactionDate] = useState(format(new Date(), "yyyy-MM-dd"));
-  const [notes, setNotes] = useState("");
+const TransactionForm = ({ type, portfolio, transactions, corporateEvents, transaction, onSuccess }: TransactionFormProps) => {
+  const [stockCode, setStockCode] = useState(transaction?.stock_code || "");
+  const [quantity, setQuantity] = useState(transaction ? String(transaction.quantity) : "");
+  const [pricePerShare, setPricePerShare] = useState(transaction ? String(transaction.price_per_share) : "");
+  const [transactionDate, setTransactionDate] = useState(
+    transaction ? transaction.transaction_date.slice(0, 10) : format(new Date(), "yyyy-MM-dd"),
+  );
+  const [notes, setNotes] = useState(transaction?.notes || "");
+  const [fees, setFees] = useState(() => Object.fromEntries(
+    FEE_FIELDS.map(field => [field, transaction?.[field] ? String(transaction[field]) : ""]),
+  ) as { [key in FeeField]: string });
+  const [lotQuantities, setLotQuantities] = useState<{ [transactionId: string]: string }>({});
+  const [allowShort, setAllowShort] = useState(false);
   const [loading, setLoading] = useState(false);
   const { toast } = useToast();
 
+  // Decimal places the asset's class allows, e.g. whole shares but fractional crypto
+  const precision = quantityPrecisionFor(portfolio, stockCode);
+  const quantityStep = precision > 0 ? (10 ** -precision).toFixed(precision) : "1";
+
+  // Shares held at the end of the sale's day, before it: a backdated sale is
+  // checked against what was held then, and an edited sale leaves itself out
+  const { costBasisMethod, assetClasses } = portfolio;
+  const position = useMemo(
+    () => type === "sell" && stockCode && transactionDate
+      ? positionOn(
+        transactions.filter(t => t.id !== transaction?.id),
+        stockCode.toUpperCase(),
+        transactionDate,
+        { costBasisMethod, assetClasses, corporateEvents },
+      )
+      : undefined,
+    [type, transactions, transaction?.id, stockCode, transactionDate, costBasisMethod, assetClasses, corporateEvents],
+  );
+  const heldQuantity = position?.quantity || 0;
+  const exceedsHolding = type === "sell" && parseFloat(quantity) > heldQuantity;
+
+  // Open lots the user can pick from when selling with specific identification,
+  // as they stood on the sale date. An edited sale keeps its original selection.
+  const selectableLots = type === "sell" && portfolio.costBasisMethod === "specific" && !transaction && position
+    ? position.lots.filter(lot => lot.transactionId)
+    : [];
+
+  const buildLotSelections = (qty: number): LotSelection[] | null => {
+    const selections = selectableLots
+      .map(lot => ({ lot, quantity: parseFloat(lotQuantities[lot.transactionId!] || "0") || 0 }))
+      .filter(({ quantity }) => quantity > 0);
+
+    if (selections.length === 0) return null;
+
+    selections.forEach(({ lot, quantity }) => {
+      if (quantity > lot.quantity) {
+        throw new Error(`O lote de ${format(lot.date, "dd/MM/yyyy")} possui apenas ${formatQuantity(lot.quantity, precision)}`);
+      }
+    });
+
+    const selectedQuantity = sumBy(selections, ({ quantity }) => quantity);
+    if (selectedQuantity !== qty) {
+      throw new Error(
+        `Os lotes selecionados somam ${formatQuantity(selectedQuantity, precision)}, mas a venda é de ${formatQuantity(qty, precision)}`,
+      );
+    }
+
+    return selections.map(({ lot, quantity }) => ({ transaction_id: lot.transactionId!, quantity }));
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setLoading(true);
@@ -30,12 +122,10 @@ const TransactionForm = ({ type, onSuccess }: TransactionFormProps) => {
       const { data: { user } } = await supabase.auth.getUser();
       if (!user) throw new Error("Usuário não autenticado");
 
-      const qty = parseInt(quantity);
+      const qty = parseFloat(quantity);
       const price = parseFloat(pricePerShare);
-      const totalValue = qty * price;
-
-      const { error } = await supabase.from("transactions").insert({
-        user_id: user.id,
+      const totalValue = roundMoney(multiply(qty, price));
+      const values = {
         stock_code: stockCode.toUpperCase(),
         transaction_type: type,
         quantity: qty,
@@ -43,21 +133,72 @@ const TransactionForm = ({ type, onSuccess }: TransactionFormProps) => {
         total_value: totalValue,
         transaction_date: new Date(transactionDate).toISOString(),
         notes: notes || null,
-      });
+        ...Object.fromEntries(FEE_FIELDS.map(field => [field, fees[field] ? parseFloat(fees[field]) : 0])) as TransactionFees,
+      };
+
+      const invalid = validationError(transactionSchemaFor(portfolio), values);
+      if (invalid) throw new Error(invalid);
+
+      if (type === "sell" && qty > heldQuantity && !allowShort) {
+        throw new Error(
+          `Você possuía ${formatQuantity(heldQuantity, precision)} de ${baseTicker(stockCode)} na data da venda; confirme a venda a descoberto para vender mais`,
+        );
+      }
+
+      if (transaction) {
+        if (transaction.lot_selections && qty !== transaction.quantity) {
+          throw new Error("Esta venda usa lotes específicos; exclua e registre novamente para alterar a quantidade");
+        }
+
+        const { error } = await supabase
+          .from("transactions")
+          .update(values)
+          .eq("id", transaction.id);
 
-      if (error) throw error;
+        if (error) throw error;
+      } else {
+        const lotSelections = buildLotSelections(qty);
+
+        const { error } = await supabase.from("transactions").insert({
+          ...values,
+          user_id: user.id,
+          lot_selections: lotSelections as unknown as Json,
+        });
+
+        if (error) throw error;
+      }
+
+      // Register the asset class on first use; an existing (possibly overridden) class is kept
+      const { error: assetError } = await supabase
+        .from("assets")
+        .upsert(
+          { user_id: user.id, ticker: baseTicker(stockCode), asset_class: inferAssetClass(stockCode) },
+          { onConflict: "user_id,ticker", ignoreDuplicates: true },
+        );
+
+      if (assetError) throw assetError;
 
       toast({
-        title: type === "buy" ? "Compra registrada!" : "Venda registrada!",
-        description: `${qty} ações de ${stockCode.toUpperCase()} por R$ ${totalValue.toFixed(2)}`,
+        title: transaction
+          ? "Transação atualizada!"
+          : type === "buy" ? "Compra registrada!" : "Venda registrada!",
+        description: `${formatQuantity(qty, precision)} de ${stockCode.toUpperCase()} por R$ ${formatCurrency(totalValue)}`,
       });
 
+      if (transaction) {
+        onSuccess();
+        return;
+      }
+
       // Reset form
       setStockCode("");
       setQuantity("");
       setPricePerShare("");
       setTransactionDate(format(new Date(), "yyyy-MM-dd"));
       setNotes("");
+      setFees(Object.fromEntries(FEE_FIELDS.map(field => [field, ""])) as { [key in FeeField]: string });
+      setLotQuantities({});
+      setAllowShort(false);
       onSuccess();
     } catch (error: any) {
       toast({
@@ -71,8 +212,176 @@ const TransactionForm = ({ type, onSuccess }: TransactionFormProps) => {
   };
 
   const totalValue = quantity && pricePerShare 
-    ? (parseInt(quantity) * parseFloat(pricePerShare)).toFixed(2)
-    : "0.00";
+    ? roundMoney(multiply(parseFloat(quantity), parseFloat(pricePerShare)))
+    : 0;
+  const totalFees = sumBy(FEE_FIELDS, field => parseFloat(fees[field]) || 0);
+  // Fees add to what a purchase costs and come out of what a sale brings in
+  const netValue = sum([totalValue, type === "buy" ? totalFees : -totalFees]);
+
+  const form = (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="transaction-date">Data</Label>
+          <Input
+            id="transaction-date"
+            type="date"
+            value={transactionDate}
+            onChange={(e) => setTransactionDate(e.target.value)}
+            required
+          />
+        </div>
+        
+        <div className="space-y-2">
+          <Label htmlFor="stockCode">Código da Ação</Label>
+          <Input
+            id="stockCode"
+            placeholder="Ex: PETR4 ou PETR4F"
+            value={stockCode}
+            onChange={(e) => setStockCode(e.target.value.toUpperCase())}
+            required
+          />
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="quantity">Quantidade</Label>
+          <Input
+            id="quantity"
+            type="number"
+            min={quantityStep}
+            step={quantityStep}
+            placeholder="100"
+            value={quantity}
+            onChange={(e) => setQuantity(e.target.value)}
+            required
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="price">Preço Unitário</Label>
+          <Input
+            id="price"
+            type="number"
+            step="any"
+            min="0.01"
+            placeholder="25.50"
+            value={pricePerShare}
+            onChange={(e) => setPricePerShare(e.target.value)}
+            required
+          />
+        </div>
+      </div>
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        {FEE_FIELDS.map((field) => (
+          <div key={field} className="space-y-2">
+            <Label htmlFor={`fee-${field}`}>{FEE_LABELS[field]}</Label>
+            <Input
+              id={`fee-${field}`}
+              type="number"
+              step="0.01"
+              min="0"
+              placeholder="0.00"
+              value={fees[field]}
+              onChange={(e) => setFees({ ...fees, [field]: e.target.value })}
+            />
+          </div>
+        ))}
+      </div>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label>Valor Total</Label>
+          <div className="text-2xl font-bold">R$ {formatCurrency(totalValue)}</div>
+        </div>
+        {totalFees > 0 && (
+          <div className="space-y-2">
+            <Label>{type === "buy" ? "Custo com Taxas" : "Valor Líquido"}</Label>
+            <div className="text-2xl font-bold">R$ {formatCurrency(netValue)}</div>
+          </div>
+        )}
+      </div>
+      {exceedsHolding && (
+        <Alert variant={allowShort ? "default" : "destructive"}>
+          <AlertDescription className="space-y-2">
+            <p>
+              A venda excede as {formatQuantity(heldQuantity, precision)} em carteira na data da venda. O excedente abre uma posição
+              vendida, encerrada quando uma compra a cobrir.
+            </p>
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id="allow-short"
+                checked={allowShort}
+                onCheckedChange={(checked) => setAllowShort(checked === true)}
+              />
+              <Label htmlFor="allow-short">Confirmo a venda a descoberto</Label>
+            </div>
+          </AlertDescription>
+        </Alert>
+      )}
+      {selectableLots.length > 0 && (
+        <div className="space-y-2">
+          <Label>Lotes vendidos</Label>
+          <p className="text-xs text-muted-foreground">
+            Informe quantas ações saem de cada lote. Sem seleção, os lotes mais antigos são usados primeiro.
+          </p>
+          <div className="rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Data Compra</TableHead>
+                  <TableHead className="text-right">Disponível</TableHead>
+                  <TableHead className="text-right">Custo Unitário</TableHead>
+                  <TableHead className="text-right">Qtd. a vender</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {selectableLots.map((lot) => (
+                  <TableRow key={lot.transactionId}>
+                    <TableCell>{format(lot.date, "dd/MM/yyyy")}</TableCell>
+                    <TableCell className="text-right">{formatQuantity(lot.quantity, precision)}</TableCell>
+                    <TableCell className="text-right">R$ {formatCurrency(lot.unitCost)}</TableCell>
+                    <TableCell className="text-right">
+                      <Input
+                        type="number"
+                        min="0"
+                        step={quantityStep}
+                        max={lot.quantity}
+                        className="w-24 ml-auto text-right"
+                        value={lotQuantities[lot.transactionId!] || ""}
+                        onChange={(e) => setLotQuantities({ ...lotQuantities, [lot.transactionId!]: e.target.value })}
+                      />
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        </div>
+      )}
+      <div className="space-y-2">
+        <Label htmlFor="notes">Observações (opcional)</Label>
+        <Textarea
+          id="notes"
+          placeholder="Notas sobre esta transação..."
+          value={notes}
+          onChange={(e) => setNotes(e.target.value)}
+        />
+      </div>
+      <Button 
+        type="submit" 
+        disabled={loading}
+        className="w-1/2"
+        variant={type === "buy" ? "default" : "destructive"}
+      >
+        {loading
+          ? "Processando..."
+          : transaction ? "Salvar Alterações" : type === "buy" ? "Registrar Compra" : "Registrar Venda"}
+      </Button>
+    </form>
+  );
+
+  // When editing, the form is rendered inside the caller's dialog
+  if (transaction) return form;
 
   return (
     <Card>
@@ -83,80 +392,7 @@ const TransactionForm = ({ type, onSuccess }: TransactionFormProps) => {
         </CardDescription>
       </CardHeader>
       <CardContent>
-        <form onSubmit={handleSubmit} className="space-y-4">
-          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-            <div className="space-y-2">
-              <Label htmlFor="transaction-date">Data</Label>
-              <Input
-                id="transaction-date"
-                type="date"
-                value={transactionDate}
-                onChange={(e) => setTransactionDate(e.target.value)}
-                required
-              />
-            </div>
-            
-            <div className="space-y-2">
-              <Label htmlFor="stockCode">Código da Ação</Label>
-              <Input
-                id="stockCode"
-                placeholder="Ex: PETR4"
-                value={stockCode}
-                onChange={(e) => setStockCode(e.target.value.toUpperCase())}
-                required
-              />
-            </div>
-          </div>
-
-          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-            <div className="space-y-2">
-              <Label htmlFor="quantity">Quantidade</Label>
-              <Input
-                id="quantity"
-                type="number"
-                min="1"
-                placeholder="100"
-                value={quantity}
-                onChange={(e) => setQuantity(e.target.value)}
-                required
-              />
-            </div>
-            <div className="space-y-2">
-              <Label htmlFor="price">Preço por Ação</Label>
-              <Input
-                id="price"
-                type="number"
-                step="0.01"
-                min="0.01"
-                placeholder="25.50"
-                value={pricePerShare}
-                onChange={(e) => setPricePerShare(e.target.value)}
-                required
-              />
-            </div>
-          </div>
-          <div className="space-y-2">
-            <Label>Valor Total</Label>
-            <div className="text-2xl font-bold">R$ {totalValue}</div>
-          </div>
-          <div className="space-y-2">
-            <Label htmlFor="notes">Observações (opcional)</Label>
-            <Textarea
-              id="notes"
-              placeholder="Notas sobre esta transação..."
-              value={notes}
-              onChange={(e) => setNotes(e.target.value)}
-            />
-          </div>
-          <Button 
-            type="submit" 
-            disabled={loading}
-            className="w-1/2"
-            variant={type === "buy" ? "default" : "destructive"}
-          >
-            {loading ? "Processando..." : type === "buy" ? "Registrar Compra" : "Registrar Venda"}
-          </Button>
-        </form>
+        {form}
       </CardContent>
     </Card>
   );
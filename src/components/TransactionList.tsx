@@ -1,12 +1,28 @@
+import { useState } from "react";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Button } from "@/components/ui/button";
-import { Trash2 } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { ToastAction } from "@/components/ui/toast";
+import { Pencil, Trash2 } from "lucide-react";
 import { format } from "date-fns";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
+import { formatCurrency, formatQuantity } from "@/lib/decimal";
+import {
+  baseTicker,
+  CorporateEventInput,
+  isFractionalTicker,
+  LotSelection,
+  Portfolio,
+  quantityPrecisionFor,
+  transactionFees,
+  TransactionFees,
+} from "@/lib/portfolio";
+import TransactionForm from "@/components/TransactionForm";
 
-interface Transaction {
+interface Transaction extends Partial<TransactionFees> {
   id: string;
   stock_code: string;
   transaction_type: "buy" | "sell";
@@ -15,33 +31,67 @@ interface Transaction {
   total_value: number;
   transaction_date: string;
   notes?: string;
+  lot_selections?: LotSelection[] | null;
 }
 
 interface TransactionListProps {
   transactions: Transaction[];
   type: "buy" | "sell";
+  portfolio: Portfolio;
+  corporateEvents: CorporateEventInput[];
+  dayTradeTransactionIds?: string[];
   onDelete?: () => void;
+  onUpdate?: () => void;
 }
 
-const TransactionList = ({ transactions, type, onDelete }: TransactionListProps) => {
+const TransactionList = ({
+  transactions,
+  type,
+  portfolio,
+  corporateEvents,
+  dayTradeTransactionIds = [],
+  onDelete,
+  onUpdate,
+}: TransactionListProps) => {
+  const [editingTransaction, setEditingTransaction] = useState<Transaction | null>(null);
   const { toast } = useToast();
   const filteredTransactions = transactions.filter(t => t.transaction_type === type);
 
-  const handleDelete = async (id: string) => {
+  const setDeletedAt = async (id: string, deletedAt: string | null) => {
+    const { error } = await supabase
+      .from("transactions")
+      .update({ deleted_at: deletedAt })
+      .eq("id", id);
+
+    if (error) throw error;
+    if (onDelete) onDelete();
+  };
+
+  const handleUndo = async (id: string) => {
     try {
-      const { error } = await supabase
-        .from("transactions")
-        .delete()
-        .eq("id", id);
+      await setDeletedAt(id, null);
+    } catch (error: any) {
+      toast({
+        title: "Erro ao desfazer",
+        description: error.message,
+        variant: "destructive",
+      });
+    }
+  };
 
-      if (error) throw error;
+  const handleDelete = async (id: string) => {
+    try {
+      await setDeletedAt(id, new Date().toISOString());
 
       toast({
         title: "Transação excluída",
-        description: "A transação foi removida com sucesso",
+        description: "A transação foi movida para a lixeira",
+        action: (
+          <ToastAction altText="Desfazer exclusão" onClick={() => handleUndo(id)}>
+            Desfazer
+          </ToastAction>
+        ),
       });
-
-      if (onDelete) onDelete();
     } catch (error: any) {
       toast({
         title: "Erro ao excluir",
@@ -51,13 +101,6 @@ const TransactionList = ({ transactions, type, onDelete }: TransactionListProps)
     }
   };
 
-  const formatCurrency = (value: number) => {
-    return value.toLocaleString("pt-BR", {
-      minimumFractionDigits: 2,
-      maximumFractionDigits: 2,
-    });
-  };
-
   return (
     <Card>
       <CardHeader>
@@ -86,15 +129,42 @@ const TransactionList = ({ transactions, type, onDelete }: TransactionListProps)
               <TableBody>
                 {filteredTransactions.map((transaction) => (
                   <TableRow key={transaction.id}>
-                    <TableCell className="font-semibold">{transaction.stock_code}</TableCell>
-                    <TableCell className="text-right">{transaction.quantity}</TableCell>
+                    <TableCell className="font-semibold">
+                      <div className="flex items-center gap-2">
+                        {transaction.stock_code}
+                        {isFractionalTicker(transaction.stock_code) && (
+                          <Badge variant="secondary" title={`Mercado fracionário, somado à posição de ${baseTicker(transaction.stock_code)}`}>
+                            Fracionário
+                          </Badge>
+                        )}
+                        {dayTradeTransactionIds.includes(transaction.id) && (
+                          <Badge variant="outline">Day trade</Badge>
+                        )}
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {formatQuantity(transaction.quantity, quantityPrecisionFor(portfolio, transaction.stock_code))}
+                    </TableCell>
                     <TableCell className="text-right">
                       {format(new Date(transaction.transaction_date), "dd/MM/yyyy")}
                     </TableCell>
                     <TableCell className="text-right font-semibold">
                       R$ {formatCurrency(transaction.total_value)}
+                      {transactionFees(transaction) > 0 && (
+                        <div className="text-xs font-normal text-muted-foreground">
+                          R$ {formatCurrency(transactionFees(transaction))} em taxas
+                        </div>
+                      )}
                     </TableCell>
                     <TableCell className="text-right">
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => setEditingTransaction(transaction)}
+                        className="h-8 w-8"
+                      >
+                        <Pencil className="h-4 w-4" />
+                      </Button>
                       <Button
                         variant="ghost"
                         size="icon"
@@ -111,6 +181,28 @@ const TransactionList = ({ transactions, type, onDelete }: TransactionListProps)
           </div>
         )}
       </CardContent>
+
+      <Dialog open={!!editingTransaction} onOpenChange={(open) => !open && setEditingTransaction(null)}>
+        <DialogContent className="sm:max-w-[640px]">
+          <DialogHeader>
+            <DialogTitle>Editar {type === "buy" ? "Compra" : "Venda"}</DialogTitle>
+          </DialogHeader>
+          {editingTransaction && (
+            <TransactionForm
+              key={editingTransaction.id}
+              type={type}
+              portfolio={portfolio}
+              transactions={transactions}
+              corporateEvents={corporateEvents}
+              transaction={editingTransaction}
+              onSuccess={() => {
+                setEditingTransaction(null);
+                if (onUpdate) onUpdate();
+              }}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
     </Card>
   );
 };
@@ -0,0 +1,222 @@
+import { useCallback, useEffect, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { RotateCcw, Trash2 } from "lucide-react";
+import { addDays, differenceInCalendarDays, format, subDays } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { formatCurrency } from "@/lib/decimal";
+import { INCOME_TYPE_LABELS, isIncomeType } from "@/lib/portfolio";
+
+// Deleted rows are kept this long before a nightly job purges them for good
+// (supabase/migrations/20251220120000_purge_trash.sql)
+const TRASH_RETENTION_DAYS = 30;
+
+type TrashTable = "transactions" | "dividends";
+
+interface TrashItem {
+  id: string;
+  table: TrashTable;
+  label: string;
+  stockCode: string;
+  date: string;
+  value: number;
+  deletedAt: string;
+}
+
+interface TrashBinProps {
+  onRestore?: () => void;
+}
+
+const TRANSACTION_TYPE_LABELS: { [key: string]: string } = {
+  buy: "Compra",
+  sell: "Venda",
+};
+
+const TrashBin = ({ onRestore }: TrashBinProps) => {
+  const [items, setItems] = useState<TrashItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const { toast } = useToast();
+
+  const fetchTrash = useCallback(async () => {
+    try {
+      // Rows past the retention period are gone for the user even before the job runs
+      const cutoff = subDays(new Date(), TRASH_RETENTION_DAYS).toISOString();
+
+      const [transactionsResult, dividendsResult] = await Promise.all([
+        supabase.from("transactions").select("*").gte("deleted_at", cutoff),
+        supabase.from("dividends").select("*").gte("deleted_at", cutoff),
+      ]);
+
+      if (transactionsResult.error) throw transactionsResult.error;
+      if (dividendsResult.error) throw dividendsResult.error;
+
+      const deletedItems: TrashItem[] = [
+        ...(transactionsResult.data || []).map(transaction => ({
+          id: transaction.id,
+          table: "transactions" as const,
+          label: TRANSACTION_TYPE_LABELS[transaction.transaction_type] || transaction.transaction_type,
+          stockCode: transaction.stock_code,
+          date: transaction.transaction_date,
+          value: transaction.total_value,
+          deletedAt: transaction.deleted_at!,
+        })),
+        ...(dividendsResult.data || []).map(dividend => ({
+          id: dividend.id,
+          table: "dividends" as const,
+          label: isIncomeType(dividend.income_type) ? INCOME_TYPE_LABELS[dividend.income_type] : dividend.income_type,
+          stockCode: dividend.stock_code,
+          date: dividend.dividend_date,
+          value: dividend.amount,
+          deletedAt: dividend.deleted_at!,
+        })),
+      ];
+
+      setItems(deletedItems.sort((a, b) => b.deletedAt.localeCompare(a.deletedAt)));
+    } catch (error: any) {
+      toast({
+        title: "Erro ao carregar lixeira",
+        description: error.message,
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    fetchTrash();
+  }, [fetchTrash]);
+
+  const handleRestore = async (item: TrashItem) => {
+    try {
+      const { error } = await supabase
+        .from(item.table)
+        .update({ deleted_at: null })
+        .eq("id", item.id);
+
+      if (error) throw error;
+
+      toast({
+        title: "Item restaurado",
+        description: `${item.label} de ${item.stockCode} voltou para a carteira`,
+      });
+
+      setItems(items.filter(i => i.id !== item.id));
+      if (onRestore) onRestore();
+    } catch (error: any) {
+      toast({
+        title: "Erro ao restaurar",
+        description: error.message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handlePurge = async (item: TrashItem) => {
+    try {
+      const { error } = await supabase
+        .from(item.table)
+        .delete()
+        .eq("id", item.id);
+
+      if (error) throw error;
+
+      toast({
+        title: "Item excluído definitivamente",
+        description: `${item.label} de ${item.stockCode} foi removido da lixeira`,
+      });
+
+      setItems(items.filter(i => i.id !== item.id));
+    } catch (error: any) {
+      toast({
+        title: "Erro ao excluir",
+        description: error.message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const daysLeft = (deletedAt: string) => {
+    const expiresAt = addDays(new Date(deletedAt), TRASH_RETENTION_DAYS);
+    return Math.max(0, differenceInCalendarDays(expiresAt, new Date()));
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Lixeira</CardTitle>
+        <CardDescription>
+          Transações e proventos excluídos ficam aqui por {TRASH_RETENTION_DAYS} dias antes de serem removidos definitivamente
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <p className="text-muted-foreground text-center py-8">Carregando...</p>
+        ) : items.length === 0 ? (
+          <p className="text-muted-foreground text-center py-8">
+            A lixeira está vazia
+          </p>
+        ) : (
+          <div className="rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Data</TableHead>
+                  <TableHead>Ativo</TableHead>
+                  <TableHead>Tipo</TableHead>
+                  <TableHead className="text-right">Valor</TableHead>
+                  <TableHead className="text-right">Excluído em</TableHead>
+                  <TableHead className="text-right">Expira em</TableHead>
+                  <TableHead className="text-right">Ações</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {items.map((item) => (
+                  <TableRow key={`${item.table}-${item.id}`}>
+                    <TableCell>{format(new Date(item.date), "dd/MM/yyyy")}</TableCell>
+                    <TableCell className="font-semibold">{item.stockCode}</TableCell>
+                    <TableCell>
+                      <Badge variant="outline">{item.label}</Badge>
+                    </TableCell>
+                    <TableCell className="text-right">R$ {formatCurrency(item.value)}</TableCell>
+                    <TableCell className="text-right">
+                      {format(new Date(item.deletedAt), "dd/MM/yyyy HH:mm")}
+                    </TableCell>
+                    <TableCell className="text-right text-muted-foreground">
+                      {daysLeft(item.deletedAt)} dias
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => handleRestore(item)}
+                        className="h-8 w-8"
+                        title="Restaurar"
+                      >
+                        <RotateCcw className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => handlePurge(item)}
+                        className="h-8 w-8 text-destructive hover:text-destructive"
+                        title="Excluir definitivamente"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default TrashBin;
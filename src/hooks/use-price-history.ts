@@ -0,0 +1,44 @@
+import { useMemo } from "react";
+import { useQueries, type UseQueryResult } from "@tanstack/react-query";
+import { getQuoteProvider, PriceBar, PriceHistory, quoteRetryDelay, shouldRetryQuote } from "@/lib/quotes";
+
+// Daily bars only change once a day, after the close
+const HISTORY_STALE_TIME = 6 * 60 * 60 * 1000;
+
+// Kept outside the hook so React Query can reuse the combined result while no query changes
+const combineResults = (results: UseQueryResult<PriceBar[]>[]) => ({
+  bars: results.map(result => result.data),
+  errors: results.map(result => result.error as Error | null),
+  loading: results.some(result => result.isPending),
+});
+
+/**
+ * Daily price history of each ticker from its start date, fetched through
+ * the configured quote provider (which backfills the shared store the first
+ * time and only adds the missing days afterwards) and cached per ticker.
+ */
+export function usePriceHistory(startDates: { [ticker: string]: Date }) {
+  const provider = getQuoteProvider();
+  const tickers = useMemo(() => Object.keys(startDates).sort(), [startDates]);
+
+  const combined = useQueries({
+    queries: tickers.map(ticker => ({
+      queryKey: ["price-history", provider.name, ticker, startDates[ticker].toISOString().slice(0, 10)],
+      queryFn: () => provider.getHistory(ticker, startDates[ticker]),
+      staleTime: HISTORY_STALE_TIME,
+      retry: shouldRetryQuote,
+      retryDelay: quoteRetryDelay,
+    })),
+    combine: combineResults,
+  });
+
+  return useMemo(() => {
+    const history: PriceHistory = {};
+    const errors: { [ticker: string]: Error } = {};
+    tickers.forEach((ticker, index) => {
+      if (combined.bars[index]) history[ticker] = combined.bars[index]!;
+      if (combined.errors[index]) errors[ticker] = combined.errors[index]!;
+    });
+    return { history, errors, loading: combined.loading };
+  }, [tickers, combined]);
+}
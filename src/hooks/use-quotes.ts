@@ -0,0 +1,61 @@
+import { useQueries, useQueryClient } from "@tanstack/react-query";
+import { createQuoteBatcher, getQuoteProvider, quoteRetryDelay, shouldRetryQuote } from "@/lib/quotes";
+
+// Quotes younger than this are served from the cache without a new request
+const QUOTE_STALE_TIME = 5 * 60 * 1000;
+
+export interface TickerQuote {
+  // Last known price, kept while a refresh runs or after a refresh fails
+  price: number | null;
+  loading: boolean;
+  // Why no price could be fetched; stays null while a cached price exists
+  error: Error | null;
+  updatedAt: Date | null;
+}
+
+let loadQuote: ReturnType<typeof createQuoteBatcher> | null = null;
+
+/**
+ * Quotes for the tickers through the shared QueryClient, cached per ticker so
+ * that a new transaction only fetches tickers not seen yet. Requests are
+ * batched under the provider's ticker limit and retried with exponential
+ * backoff when rate limited.
+ */
+export function useQuotes(tickers: string[]) {
+  const queryClient = useQueryClient();
+  const provider = getQuoteProvider();
+  if (!loadQuote) loadQuote = createQuoteBatcher(provider);
+  const load = loadQuote;
+
+  const results = useQueries({
+    queries: tickers.map(ticker => ({
+      queryKey: ["quote", provider.name, ticker],
+      queryFn: () => load(ticker),
+      staleTime: QUOTE_STALE_TIME,
+      retry: shouldRetryQuote,
+      retryDelay: quoteRetryDelay,
+    })),
+  });
+
+  const quotes: { [ticker: string]: TickerQuote } = {};
+  tickers.forEach((ticker, index) => {
+    const result = results[index];
+    quotes[ticker] = {
+      price: result.data?.price ?? null,
+      loading: result.isPending,
+      error: result.data ? null : (result.error as Error | null),
+      updatedAt: result.dataUpdatedAt ? new Date(result.dataUpdatedAt) : null,
+    };
+  });
+
+  // The oldest price on screen tells how current the totals are
+  const updatedTimes = results.filter(result => result.dataUpdatedAt).map(result => result.dataUpdatedAt);
+
+  return {
+    providerName: provider.name,
+    quotes,
+    updatedAt: updatedTimes.length > 0 ? new Date(Math.min(...updatedTimes)) : null,
+    fetching: results.some(result => result.isFetching),
+    refresh: () => queryClient.invalidateQueries({ queryKey: ["quote", provider.name] }),
+  };
+}
@@ -14,13 +14,303 @@ export type Database = {
   }
   public: {
     Tables: {
-      [_ in never]: never
+      assets: {
+        Row: {
+          asset_class: string
+          created_at: string
+          id: string
+          ticker: string
+          user_id: string
+        }
+        Insert: {
+          asset_class: string
+          created_at?: string
+          id?: string
+          ticker: string
+          user_id: string
+        }
+        Update: {
+          asset_class?: string
+          created_at?: string
+          id?: string
+          ticker?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "assets_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      corporate_events: {
+        Row: {
+          cash_per_share: number | null
+          created_at: string
+          event_date: string
+          event_type: string
+          id: string
+          new_ticker: string | null
+          notes: string | null
+          ratio_from: number
+          ratio_to: number
+          ticker: string
+          unit_cost: number | null
+          user_id: string
+        }
+        Insert: {
+          cash_per_share?: number | null
+          created_at?: string
+          event_date: string
+          event_type: string
+          id?: string
+          new_ticker?: string | null
+          notes?: string | null
+          ratio_from: number
+          ratio_to: number
+          ticker: string
+          unit_cost?: number | null
+          user_id: string
+        }
+        Update: {
+          cash_per_share?: number | null
+          created_at?: string
+          event_date?: string
+          event_type?: string
+          id?: string
+          new_ticker?: string | null
+          notes?: string | null
+          ratio_from?: number
+          ratio_to?: number
+          ticker?: string
+          unit_cost?: number | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "corporate_events_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      dividends: {
+        Row: {
+          amount: number
+          created_at: string
+          deleted_at: string | null
+          dividend_date: string
+          gross_amount: number
+          id: string
+          income_type: string
+          stock_code: string
+          user_id: string
+          withholding_tax: number
+        }
+        Insert: {
+          amount: number
+          created_at?: string
+          deleted_at?: string | null
+          dividend_date: string
+          gross_amount: number
+          id?: string
+          income_type?: string
+          stock_code: string
+          user_id: string
+          withholding_tax?: number
+        }
+        Update: {
+          amount?: number
+          created_at?: string
+          deleted_at?: string | null
+          dividend_date?: string
+          gross_amount?: number
+          id?: string
+          income_type?: string
+          stock_code?: string
+          user_id?: string
+          withholding_tax?: number
+        }
+        Relationships: []
+      }
+      price_history: {
+        Row: {
+          adjusted_close: number | null
+          close: number
+          date: string
+          high: number | null
+          low: number | null
+          open: number | null
+          ticker: string
+          volume: number | null
+        }
+        Insert: {
+          adjusted_close?: number | null
+          close: number
+          date: string
+          high?: number | null
+          low?: number | null
+          open?: number | null
+          ticker: string
+          volume?: number | null
+        }
+        Update: {
+          adjusted_close?: number | null
+          close?: number
+          date?: string
+          high?: number | null
+          low?: number | null
+          open?: number | null
+          ticker?: string
+          volume?: number | null
+        }
+        Relationships: []
+      }
+      price_history_syncs: {
+        Row: {
+          covered_from: string
+          synced_at: string
+          ticker: string
+        }
+        Insert: {
+          covered_from: string
+          synced_at?: string
+          ticker: string
+        }
+        Update: {
+          covered_from?: string
+          synced_at?: string
+          ticker?: string
+        }
+        Relationships: []
+      }
+      profiles: {
+        Row: {
+          cost_basis_method: string
+          created_at: string
+          id: string
+          quantity_precision: Json
+          username: string
+        }
+        Insert: {
+          cost_basis_method?: string
+          created_at?: string
+          id: string
+          quantity_precision?: Json
+          username: string
+        }
+        Update: {
+          cost_basis_method?: string
+          created_at?: string
+          id?: string
+          quantity_precision?: Json
+          username?: string
+        }
+        Relationships: []
+      }
+      quotes_cache: {
+        Row: {
+          currency: string
+          fetched_at: string
+          market_time: string | null
+          price: number
+          ticker: string
+        }
+        Insert: {
+          currency?: string
+          fetched_at?: string
+          market_time?: string | null
+          price: number
+          ticker: string
+        }
+        Update: {
+          currency?: string
+          fetched_at?: string
+          market_time?: string | null
+          price?: number
+          ticker?: string
+        }
+        Relationships: []
+      }
+      transactions: {
+        Row: {
+          brokerage_fee: number
+          created_at: string
+          deleted_at: string | null
+          exchange_fee: number
+          id: string
+          lot_selections: Json | null
+          notes: string | null
+          other_fees: number
+          price_per_share: number
+          quantity: number
+          settlement_fee: number
+          stock_code: string
+          total_value: number
+          transaction_date: string
+          transaction_type: string
+          user_id: string
+        }
+        Insert: {
+          brokerage_fee?: number
+          created_at?: string
+          deleted_at?: string | null
+          exchange_fee?: number
+          id?: string
+          lot_selections?: Json | null
+          notes?: string | null
+          other_fees?: number
+          price_per_share: number
+          quantity: number
+          settlement_fee?: number
+          stock_code: string
+          total_value: number
+          transaction_date?: string
+          transaction_type: string
+          user_id: string
+        }
+        Update: {
+          brokerage_fee?: number
+          created_at?: string
+          deleted_at?: string | null
+          exchange_fee?: number
+          id?: string
+          lot_selections?: Json | null
+          notes?: string | null
+          other_fees?: number
+          price_per_share?: number
+          quantity?: number
+          settlement_fee?: number
+          stock_code?: string
+          total_value?: number
+          transaction_date?: string
+          transaction_type?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "transactions_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      restore_backup: {
+        Args: { p_mode: string; p_profile: Json; p_tables: Json }
+        Returns: undefined
+      }
     }
     Enums: {
       [_ in never]: never
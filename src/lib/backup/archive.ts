@@ -0,0 +1,164 @@
+import { z } from "zod";
+import type { Tables, TablesInsert } from "@/integrations/supabase/types";
+
+export const BACKUP_FORMAT = "financas-backup";
+
+export const BACKUP_VERSION = 1;
+
+/**
+ * Tables included in a backup, in restore order. New user-owned tables are
+ * added here (with a row schema below) and to the restore_backup database
+ * function to be exported and restored too.
+ */
+export const BACKUP_TABLES = ["assets", "corporate_events", "transactions", "dividends"] as const;
+
+export type BackupTable = typeof BACKUP_TABLES[number];
+
+export type BackupRow<T extends BackupTable> = Omit<Tables<T>, "user_id">;
+
+export type RestoreMode = "merge" | "replace";
+
+export const RESTORE_MODE_LABELS: { [key in RestoreMode]: string } = {
+  merge: "Mesclar com os dados atuais",
+  replace: "Substituir os dados atuais",
+};
+
+export interface BackupArchive {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  exported_at: string;
+  user_id: string;
+  // Archives made before per-class quantity precision lack it
+  profile: Pick<Tables<"profiles">, "username" | "cost_basis_method"> & Partial<Pick<Tables<"profiles">, "quantity_precision">>;
+  tables: { [T in BackupTable]: BackupRow<T>[] };
+}
+
+// Rows are checked for the columns the app relies on; extra columns pass through untouched
+const ROW_SCHEMAS: { [T in BackupTable]: z.ZodTypeAny } = {
+  assets: z.object({
+    id: z.string(),
+    ticker: z.string(),
+    asset_class: z.string(),
+  }).passthrough(),
+  corporate_events: z.object({
+    id: z.string(),
+    ticker: z.string(),
+    event_type: z.string(),
+    event_date: z.string(),
+    ratio_from: z.number(),
+    ratio_to: z.number(),
+  }).passthrough(),
+  transactions: z.object({
+    id: z.string(),
+    stock_code: z.string(),
+    transaction_type: z.enum(["buy", "sell"]),
+    quantity: z.number(),
+    price_per_share: z.number(),
+    total_value: z.number(),
+    transaction_date: z.string(),
+  }).passthrough(),
+  dividends: z.object({
+    id: z.string(),
+    stock_code: z.string(),
+    amount: z.number(),
+    gross_amount: z.number(),
+    dividend_date: z.string(),
+  }).passthrough(),
+};
+
+const archiveSchema = z.object({
+  format: z.literal(BACKUP_FORMAT),
+  version: z.number().int(),
+  exported_at: z.string(),
+  user_id: z.string(),
+  profile: z.object({
+    username: z.string(),
+    cost_basis_method: z.string(),
+    quantity_precision: z.record(z.number().int().min(0)).optional(),
+  }),
+  tables: z.object(
+    Object.fromEntries(BACKUP_TABLES.map(table => [table, z.array(ROW_SCHEMAS[table])])) as {
+      [T in BackupTable]: z.ZodArray<z.ZodTypeAny>
+    },
+  ),
+});
+
+export function buildBackupArchive(
+  userId: string,
+  profile: BackupArchive["profile"],
+  tables: { [T in BackupTable]: Tables<T>[] },
+): BackupArchive {
+  return {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    exported_at: new Date().toISOString(),
+    user_id: userId,
+    profile,
+    tables: Object.fromEntries(
+      BACKUP_TABLES.map(table => [table, tables[table].map(({ user_id: _userId, ...row }) => row)]),
+    ) as BackupArchive["tables"],
+  };
+}
+
+/**
+ * Parses and validates a backup file. Archives from a newer version of the
+ * app are rejected rather than partially restored.
+ */
+export function parseBackupArchive(text: string): BackupArchive {
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch {
+    throw new Error("O arquivo não é um JSON válido");
+  }
+
+  const format = (json as { format?: unknown })?.format;
+  const version = (json as { version?: unknown })?.version;
+  if (format !== BACKUP_FORMAT) throw new Error("O arquivo não é um backup deste aplicativo");
+  if (typeof version !== "number" || version > BACKUP_VERSION) {
+    throw new Error(`Versão de backup não suportada (${String(version)}); atualize o aplicativo`);
+  }
+
+  const result = archiveSchema.safeParse(json);
+  if (!result.success) {
+    const issue = result.error.errors[0];
+    throw new Error(`Backup inválido em ${issue.path.join(".")}: ${issue.message}`);
+  }
+  return result.data as BackupArchive;
+}
+
+/**
+ * Prepares the archive's rows for insertion into the given account. Restoring
+ * into the account that produced the backup keeps the row ids, so merging
+ * skips rows that already exist; restoring into another account assigns new
+ * ids and rewires the lot selections that point at transaction ids.
+ */
+export function prepareRestoreRows(archive: BackupArchive, userId: string): { [T in BackupTable]: TablesInsert<T>[] } {
+  const sameAccount = archive.user_id === userId;
+  const ids = new Map<string, string>();
+  const idFor = (id: string) => {
+    if (sameAccount) return id;
+    if (!ids.has(id)) ids.set(id, crypto.randomUUID());
+    return ids.get(id)!;
+  };
+
+  const withOwner = <T extends BackupTable>(table: T) =>
+    archive.tables[table].map(row => ({ ...row, id: idFor(row.id), user_id: userId }));
+
+  const transactions = withOwner("transactions").map(row => ({
+    ...row,
+    lot_selections: Array.isArray(row.lot_selections)
+      ? row.lot_selections.map(selection => {
+        const { transaction_id, quantity } = selection as { transaction_id: string; quantity: number };
+        return { transaction_id: idFor(transaction_id), quantity };
+      })
+      : row.lot_selections,
+  }));
+
+  return {
+    assets: withOwner("assets"),
+    corporate_events: withOwner("corporate_events"),
+    transactions,
+    dividends: withOwner("dividends"),
+  };
+}
@@ -0,0 +1,22 @@
+const escapeCell = (value: unknown) => {
+  if (value === null || value === undefined) return "";
+  const text = typeof value === "object" ? JSON.stringify(value) : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/** Serializes rows as CSV with a header line holding every column seen. */
+export function toCsv(rows: object[]) {
+  const columns = [...new Set(rows.flatMap(row => Object.keys(row)))];
+  const lines = rows.map(row => columns.map(column => escapeCell((row as Record<string, unknown>)[column])).join(","));
+  return [columns.join(","), ...lines].join("\n");
+}
+
+export function downloadFile(fileName: string, content: string, type: string) {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  // Revoking right after the click can cancel the download while the browser still reads the blob
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
@@ -0,0 +1,2 @@
+export * from "./archive";
+export * from "./csv";
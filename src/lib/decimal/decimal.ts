@@ -0,0 +1,48 @@
+import Decimal from "decimal.js-light";
+
+/**
+ * Exact decimal arithmetic for quantities and amounts. Stored values are
+ * decimals, and adding or multiplying them as binary floats lets cents
+ * drift; these helpers work on their decimal digits and only turn the result
+ * back into a number at the end.
+ */
+export type Numeric = Decimal | number | string;
+
+export { Decimal };
+
+export const decimal = (value: Numeric) => new Decimal(value);
+
+export function sum(values: Numeric[]) {
+  return values.reduce<Decimal>((total, value) => total.plus(value), new Decimal(0)).toNumber();
+}
+
+export function sumBy<T>(items: T[], value: (item: T) => Numeric) {
+  return sum(items.map(value));
+}
+
+export function subtract(value: Numeric, ...amounts: Numeric[]) {
+  return amounts.reduce<Decimal>((total, amount) => total.minus(amount), decimal(value)).toNumber();
+}
+
+export function multiply(value: Numeric, ...factors: Numeric[]) {
+  return factors.reduce<Decimal>((total, factor) => total.times(factor), decimal(value)).toNumber();
+}
+
+/** Divides, treating a zero divisor as a zero result as the portfolio views expect. */
+export function divide(value: Numeric, divisor: Numeric) {
+  return decimal(divisor).isZero() ? 0 : decimal(value).dividedBy(divisor).toNumber();
+}
+
+/** The part as a percentage of the whole, or zero when the whole is zero. */
+export function percentage(part: Numeric, whole: Numeric) {
+  return decimal(whole).isZero() ? 0 : decimal(part).dividedBy(whole).times(100).toNumber();
+}
+
+export function decimalPlaces(value: Numeric) {
+  return decimal(value).decimalPlaces();
+}
+
+/** Formats a quantity in pt-BR, showing at most the given decimal places. */
+export function formatQuantity(value: number, places: number) {
+  return value.toLocaleString("pt-BR", { maximumFractionDigits: places });
+}
@@ -0,0 +1,91 @@
+import { describe, expect, it } from "vitest";
+import fc from "fast-check";
+import { multiply, sum, sumBy } from "./decimal";
+import { formatCurrency, roundMoney } from "./money";
+
+// Reference model of a DECIMAL(12, 2) column: values are whole cents, at most 10 digits before the point
+const MAX_CENTS = 10n ** 12n - 1n;
+
+const cents = fc.bigInt({ min: -MAX_CENTS / 1000n, max: MAX_CENTS / 1000n });
+
+const fromCents = (value: bigint) => Number(value) / 100;
+
+/** Divides and rounds a tie to the even quotient, on integers. */
+const divideHalfEven = (value: bigint, divisor: bigint) => {
+  const quotient = value / divisor;
+  const remainder = value % divisor;
+  const twice = 2n * (remainder < 0n ? -remainder : remainder);
+  if (twice < divisor || (twice === divisor && quotient % 2n === 0n)) return quotient;
+  return quotient + (value < 0n ? -1n : 1n);
+};
+
+/** Value as Postgres stores it in a scale-2 column, which rounds ties away from zero. */
+const persisted = (value: number) => {
+  const [whole, fraction = ""] = Math.abs(value).toFixed(10).split(".");
+  const scaled = BigInt(whole + fraction.slice(0, 2));
+  const roundUp = fraction[2] >= "5";
+  return Math.sign(value) * fromCents(scaled + (roundUp ? 1n : 0n));
+};
+
+// Prices are stored with 8 places; quantities here are whole or fractional with up to 8 places
+const scaledPrice = fc.bigInt({ min: 1n, max: 10n ** 13n });
+const scaledQuantity = fc.bigInt({ min: 1n, max: 10n ** 11n });
+const PLACES = 10n ** 8n;
+
+describe("money arithmetic against DECIMAL(12, 2) columns", () => {
+  it("sums stored amounts to exactly the sum of their cents", () => {
+    fc.assert(fc.property(fc.array(cents, { maxLength: 200 }), values => {
+      const total = sum(values.map(fromCents));
+      expect(total).toBe(fromCents(values.reduce((a, b) => a + b, 0n)));
+      expect(persisted(total)).toBe(total);
+    }));
+  });
+
+  it("rounds quantity times price to the cent with ties to even", () => {
+    fc.assert(fc.property(scaledQuantity, scaledPrice, (quantity, price) => {
+      // quantity × price carries 16 decimal places; cents keep 2 of them
+      const exactCents = divideHalfEven(quantity * price, PLACES * PLACES / 100n);
+      fc.pre(exactCents <= MAX_CENTS);
+
+      const value = roundMoney(multiply(Number(quantity) / 1e8, Number(price) / 1e8));
+      expect(value).toBe(fromCents(exactCents));
+    }));
+  });
+
+  it("produces values the column stores unchanged", () => {
+    fc.assert(fc.property(fc.double({ min: -1e9, max: 1e9, noNaN: true }), value => {
+      const rounded = roundMoney(value);
+      expect(persisted(rounded)).toBe(rounded);
+      expect(roundMoney(rounded)).toBe(rounded);
+    }));
+  });
+
+  it("rounds a half cent to the even cent", () => {
+    fc.assert(fc.property(cents, value => {
+      const sign = value < 0n ? "-" : "";
+      const magnitude = value < 0n ? -value : value;
+      const text = `${sign}${magnitude / 100n}.${String(magnitude % 100n).padStart(2, "0")}5`;
+      const even = magnitude % 2n === 0n ? magnitude : magnitude + 1n;
+
+      expect(roundMoney(text)).toBe(fromCents(value < 0n ? -even : even));
+    }));
+  });
+
+  it("totals rounded rows to what SUM() over the stored column returns", () => {
+    const row = fc.record({ quantity: scaledQuantity, price: fc.bigInt({ min: 1n, max: 10n ** 11n }) });
+
+    fc.assert(fc.property(fc.array(row, { maxLength: 50 }), rows => {
+      const values = rows.map(({ quantity, price }) => roundMoney(multiply(Number(quantity) / 1e8, Number(price) / 1e8)));
+      const storedCents = values.map(value => BigInt(Math.round(persisted(value) * 100)));
+
+      expect(sumBy(values, value => value)).toBe(fromCents(storedCents.reduce((a, b) => a + b, 0n)));
+    }));
+  });
+
+  it("formats the same cents that are stored", () => {
+    fc.assert(fc.property(fc.double({ min: -1e9, max: 1e9, noNaN: true }), value => {
+      const digits = formatCurrency(value).replace(/\./g, "").replace(",", ".");
+      expect(Number(digits)).toBe(roundMoney(value));
+    }));
+  });
+});
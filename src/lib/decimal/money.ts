@@ -0,0 +1,30 @@
+import { Decimal, decimal, type Numeric } from "./decimal";
+
+// Amounts are stored in DECIMAL columns with two places
+export const MONEY_PLACES = 2;
+
+/**
+ * Rounds to cents following ABNT NBR 5891: a trailing 5 with nothing after
+ * it rounds to the even cent, which is banker's rounding. Every amount that
+ * is shown, stored or taxed goes through here, so displayed totals match the
+ * persisted DECIMAL columns.
+ */
+export function roundMoney(value: Numeric) {
+  return decimal(value).toDecimalPlaces(MONEY_PLACES, Decimal.ROUND_HALF_EVEN).toNumber();
+}
+
+/** Formats an amount as pt-BR currency digits (1.234,56), without the R$ symbol. */
+export function formatCurrency(value: Numeric) {
+  return roundMoney(value).toLocaleString("pt-BR", {
+    minimumFractionDigits: MONEY_PLACES,
+    maximumFractionDigits: MONEY_PLACES,
+  });
+}
+
+/** Formats a percentage in pt-BR (12,34), without the % sign. */
+export function formatPercent(value: Numeric, places = 2) {
+  return decimal(value).toDecimalPlaces(places, Decimal.ROUND_HALF_EVEN).toNumber().toLocaleString("pt-BR", {
+    minimumFractionDigits: places,
+    maximumFractionDigits: places,
+  });
+}
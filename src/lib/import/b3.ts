@@ -0,0 +1,174 @@
+import { grossUpNetAmount, transactionSchemaFor, validationError, type IncomeType, type Portfolio } from "@/lib/portfolio";
+import { multiply, roundMoney, subtract } from "@/lib/decimal";
+import { normalizeText, parseBrazilianDate, parseBrazilianNumber } from "./parse";
+import type { ImportedDividend, ImportedTransaction, UnmatchedLine } from "./types";
+
+export type B3ExportKind = "negotiations" | "movements" | "positions";
+
+export const B3_EXPORT_LABELS: { [key in B3ExportKind]: string } = {
+  negotiations: "Negociação",
+  movements: "Movimentação",
+  positions: "Posição",
+};
+
+export interface B3Position {
+  stock_code: string;
+  quantity: number;
+  source: string;
+}
+
+export interface B3Import {
+  kinds: B3ExportKind[];
+  transactions: ImportedTransaction[];
+  dividends: ImportedDividend[];
+  positions: B3Position[];
+  unmatched: UnmatchedLine[];
+}
+
+type Row = { [column: string]: unknown };
+
+const B3_NOTE = "Importado da B3 (Área do Investidor)";
+
+const CASH_MARKETS = new Set(["mercado a vista", "mercado fracionario"]);
+
+const INCOME_MOVEMENTS: { [movement: string]: IncomeType } = {
+  "dividendo": "dividend",
+  "juros sobre capital proprio": "jcp",
+  "rendimento": "fii_income",
+};
+
+// Settlement movements mirror the trades listed in the negotiation export
+const SETTLEMENT_MOVEMENTS = new Set(["transferencia - liquidacao", "transferencia"]);
+
+const toNumber = (value: unknown) => {
+  if (typeof value === "number") return value;
+  const text = String(value ?? "").replace(/R\$/g, "").replace(/\s/g, "");
+  if (!text || text === "-") return NaN;
+  return text.includes(",") ? parseBrazilianNumber(text) : parseFloat(text);
+};
+
+// Spreadsheets may store dates as serial numbers, decoded with SheetJS's date code parser
+const toDate = (value: unknown, SSF: typeof import("xlsx").SSF) => {
+  if (typeof value === "number") {
+    const parsed = SSF.parse_date_code(value);
+    return parsed ? new Date(Date.UTC(parsed.y, parsed.m - 1, parsed.d)) : null;
+  }
+  return parseBrazilianDate(String(value ?? ""));
+};
+
+const detectKind = (columns: string[]): B3ExportKind | null => {
+  if (columns.includes("data do negocio") && columns.includes("codigo de negociacao")) return "negotiations";
+  if (columns.includes("movimentacao") && columns.includes("produto")) return "movements";
+  if (columns.includes("codigo de negociacao") && columns.includes("quantidade")) return "positions";
+  return null;
+};
+
+const readRows = (rows: Row[]) =>
+  rows.map(row => Object.fromEntries(Object.entries(row).map(([column, value]) => [normalizeText(column), value])));
+
+/**
+ * Reads an export from B3's Área do Investidor (negotiation, movement or
+ * position spreadsheets). Trades become transactions, cash distributions
+ * become dividends and positions are kept for reconciliation; every other
+ * line, including trades that fail the shared transaction rules, is reported
+ * as unmatched with the reason it was skipped. SheetJS is loaded on first use
+ * so it stays out of the main bundle.
+ */
+export async function readB3Workbook(
+  data: ArrayBuffer,
+  fileName: string,
+  portfolio: Pick<Portfolio, "assetClasses" | "quantityPrecision">,
+): Promise<B3Import> {
+  const { read, SSF, utils } = await import("xlsx");
+  const schema = transactionSchemaFor(portfolio);
+  const workbook = read(data, { type: "array" });
+  const result: B3Import = { kinds: [], transactions: [], dividends: [], positions: [], unmatched: [] };
+
+  workbook.SheetNames.forEach(sheetName => {
+    const rows = readRows(utils.sheet_to_json<Row>(workbook.Sheets[sheetName], { defval: "" }));
+    if (rows.length === 0) return;
+
+    const source = `${fileName} · ${sheetName}`;
+    const kind = detectKind(Object.keys(rows[0]));
+    if (!kind) {
+      result.unmatched.push({ source, line: 1, content: Object.keys(rows[0]).join(", "), reason: "Planilha não reconhecida" });
+      return;
+    }
+    if (!result.kinds.includes(kind)) result.kinds.push(kind);
+
+    rows.forEach((row, index) => {
+      // Spreadsheet line numbers start at 1 and the first line holds the headers
+      const line = index + 2;
+      const content = Object.values(row).filter(value => value !== "").join(" | ");
+      const unmatched = (reason: string) => result.unmatched.push({ source, line, content, reason });
+
+      if (kind === "positions") {
+        const ticker = String(row["codigo de negociacao"] || "").trim().toUpperCase();
+        const quantity = toNumber(row["quantidade"]);
+        // Position sheets end with a totals line that has no ticker
+        if (!ticker) return;
+        if (isNaN(quantity)) return unmatched("Quantidade inválida");
+        result.positions.push({ stock_code: ticker, quantity, source });
+        return;
+      }
+
+      if (kind === "negotiations") {
+        const date = toDate(row["data do negocio"], SSF);
+        const side = normalizeText(row["tipo de movimentacao"]);
+        const ticker = String(row["codigo de negociacao"] || "").trim().toUpperCase();
+        const quantity = toNumber(row["quantidade"]);
+        const price = toNumber(row["preco"]);
+        const value = toNumber(row["valor"]);
+
+        if (!date) return unmatched("Data inválida");
+        if (!CASH_MARKETS.has(normalizeText(row["mercado"]))) return unmatched(`Mercado não suportado: ${row["mercado"]}`);
+        if (side !== "compra" && side !== "venda") return unmatched(`Tipo de movimentação desconhecido: ${row["tipo de movimentacao"]}`);
+        if (!ticker || !(quantity > 0) || !(price > 0)) return unmatched("Ativo, quantidade ou preço ausente");
+
+        const transaction: ImportedTransaction = {
+          stock_code: ticker,
+          transaction_type: side === "compra" ? "buy" : "sell",
+          quantity,
+          price_per_share: price,
+          total_value: roundMoney(isNaN(value) ? multiply(quantity, price) : value),
+          transaction_date: date.toISOString(),
+          notes: B3_NOTE,
+        };
+        const error = validationError(schema, transaction);
+        if (error) return unmatched(error);
+
+        result.transactions.push(transaction);
+        return;
+      }
+
+      const movement = normalizeText(row["movimentacao"]);
+      const incomeType = INCOME_MOVEMENTS[movement];
+      if (!incomeType) {
+        return unmatched(SETTLEMENT_MOVEMENTS.has(movement)
+          ? "Liquidação de negócio (importe a planilha de negociação)"
+          : `Movimentação não importada: ${row["movimentacao"]}`);
+      }
+
+      const date = toDate(row["data"], SSF);
+      const ticker = String(row["produto"] || "").split(" - ")[0].trim().toUpperCase();
+      const amount = toNumber(row["valor da operacao"]);
+
+      if (normalizeText(row["entrada/saida"]) !== "credito") return unmatched("Provento com lançamento de débito");
+      if (!date) return unmatched("Data inválida");
+      if (!ticker || !(amount > 0)) return unmatched("Ativo ou valor ausente");
+
+      // B3 reports the net amount; JCP withholding is grossed back up
+      const grossAmount = grossUpNetAmount(incomeType, amount);
+      result.dividends.push({
+        stock_code: ticker,
+        income_type: incomeType,
+        gross_amount: grossAmount,
+        withholding_tax: roundMoney(subtract(grossAmount, amount)),
+        amount: roundMoney(amount),
+        dividend_date: date.toISOString(),
+      });
+    });
+  });
+
+  return result;
+}
@@ -0,0 +1,35 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_QUANTITY_PRECISION } from "@/lib/portfolio";
+import { mapTransactionRows, type ColumnMapping, type CsvOptions, type TransactionCsvField } from "./csv";
+
+const portfolio = { assetClasses: {}, quantityPrecision: DEFAULT_QUANTITY_PRECISION };
+const options: CsvOptions = { dateFormat: "dd/MM/yyyy", decimalSeparator: "comma" };
+const mapping: ColumnMapping<TransactionCsvField> = { date: 0, stock_code: 1, quantity: 2, price: 3, fees: 4 };
+
+describe("mapTransactionRows", () => {
+  it("maps a valid row, with quantity times price as the total", () => {
+    const [result] = mapTransactionRows([["05/03/2024", "petr4", "100", "38,51", "4,90"]], mapping, "buy", options, portfolio);
+
+    expect(result.error).toBeNull();
+    expect(result.row).toMatchObject({ stock_code: "PETR4", quantity: 100, price_per_share: 38.51, total_value: 3851, other_fees: 4.9 });
+  });
+
+  it("reports an unreadable quantity on its line", () => {
+    const results = mapTransactionRows(
+      [["05/03/2024", "PETR4", "100", "38,51", ""], ["05/03/2024", "VALE3", "abc", "60,00", ""]],
+      mapping,
+      "buy",
+      options,
+      portfolio,
+    );
+
+    expect(results[0].error).toBeNull();
+    expect(results[1]).toEqual({ line: 3, row: null, error: 'Quantidade inválida: "abc"' });
+  });
+
+  it("reports unreadable fees on their line", () => {
+    const [result] = mapTransactionRows([["05/03/2024", "PETR4", "100", "38,51", "x"]], mapping, "sell", options, portfolio);
+
+    expect(result).toEqual({ line: 2, row: null, error: 'Taxas inválidas: "x"' });
+  });
+});
@@ -0,0 +1,257 @@
+import { isValid, parse } from "date-fns";
+import {
+  calculateWithholding,
+  dividendSchema,
+  grossUpNetAmount,
+  IncomeType,
+  Portfolio,
+  TransactionType,
+  transactionSchemaFor,
+  validationError,
+} from "@/lib/portfolio";
+import { multiply, roundMoney, subtract, sum } from "@/lib/decimal";
+import { normalizeText, parseBrazilianNumber } from "./parse";
+import type { ImportedDividend, ImportedTransaction } from "./types";
+
+export const CSV_DATE_FORMATS = ["dd/MM/yyyy", "dd/MM/yy", "dd-MM-yyyy", "yyyy-MM-dd", "MM/dd/yyyy"] as const;
+
+export type CsvDateFormat = typeof CSV_DATE_FORMATS[number];
+
+export type DecimalSeparator = "comma" | "dot";
+
+export interface CsvOptions {
+  dateFormat: CsvDateFormat;
+  decimalSeparator: DecimalSeparator;
+}
+
+export type TransactionCsvField = "date" | "stock_code" | "quantity" | "price" | "total" | "fees" | "notes";
+
+export type DividendCsvField = "date" | "stock_code" | "income_type" | "gross_amount" | "net_amount" | "withholding_tax";
+
+export interface CsvFieldDefinition<F extends string> {
+  field: F;
+  label: string;
+  required: boolean;
+  aliases: string[];
+}
+
+export type ColumnMapping<F extends string> = { [key in F]?: number };
+
+export interface CsvRowResult<T> {
+  line: number;
+  row: T | null;
+  error: string | null;
+}
+
+export const TRANSACTION_CSV_FIELDS: CsvFieldDefinition<TransactionCsvField>[] = [
+  { field: "date", label: "Data", required: true, aliases: ["data", "date", "data do negocio", "data pregao"] },
+  { field: "stock_code", label: "Ativo", required: true, aliases: ["ativo", "codigo", "ticker", "papel", "codigo de negociacao"] },
+  { field: "quantity", label: "Quantidade", required: true, aliases: ["quantidade", "qtd", "qtde", "quantity"] },
+  { field: "price", label: "Preço", required: true, aliases: ["preco", "preco unitario", "price", "cotacao"] },
+  { field: "total", label: "Valor total", required: false, aliases: ["valor", "valor total", "total", "valor da operacao"] },
+  { field: "fees", label: "Taxas", required: false, aliases: ["taxas", "custos", "taxas e custos", "fees"] },
+  { field: "notes", label: "Observações", required: false, aliases: ["observacoes", "obs", "notas", "notes"] },
+];
+
+export const DIVIDEND_CSV_FIELDS: CsvFieldDefinition<DividendCsvField>[] = [
+  { field: "date", label: "Data", required: true, aliases: ["data", "date", "data pagamento", "pagamento"] },
+  { field: "stock_code", label: "Ativo", required: true, aliases: ["ativo", "codigo", "ticker", "papel", "produto"] },
+  { field: "income_type", label: "Tipo", required: false, aliases: ["tipo", "evento", "provento", "movimentacao"] },
+  { field: "gross_amount", label: "Valor bruto", required: false, aliases: ["valor bruto", "bruto"] },
+  { field: "net_amount", label: "Valor líquido", required: false, aliases: ["valor liquido", "liquido", "valor", "valor recebido"] },
+  { field: "withholding_tax", label: "IR retido", required: false, aliases: ["ir", "ir retido", "irrf", "imposto"] },
+];
+
+const INCOME_TYPE_ALIASES: { [alias: string]: IncomeType } = {
+  "": "dividend",
+  "dividendo": "dividend",
+  "dividendos": "dividend",
+  "dividend": "dividend",
+  "jcp": "jcp",
+  "jscp": "jcp",
+  "juros sobre capital proprio": "jcp",
+  "juros s/ capital": "jcp",
+  "rendimento": "fii_income",
+  "rendimentos": "fii_income",
+  "fii": "fii_income",
+};
+
+/** Picks the delimiter that splits the header line into the most columns. */
+export function detectDelimiter(text: string) {
+  const header = text.split(/\r?\n/, 1)[0] || "";
+  return [";", ",", "\t"].reduce((best, delimiter) =>
+    header.split(delimiter).length > header.split(best).length ? delimiter : best,
+  );
+}
+
+/** Splits CSV text into rows of cells, honoring quoted cells and doubled quotes. */
+export function parseCsv(text: string, delimiter = detectDelimiter(text)): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let quoted = false;
+  const input = text.replace(/^\uFEFF/, "");
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[i + 1] === "\n") i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+  return rows.filter(r => r.some(value => value.trim() !== ""));
+}
+
+export function guessColumnMapping<F extends string>(headers: string[], fields: CsvFieldDefinition<F>[]) {
+  const normalized = headers.map(normalizeText);
+  const mapping: ColumnMapping<F> = {};
+
+  fields.forEach(({ field, aliases }) => {
+    const index = normalized.findIndex(header => aliases.includes(header));
+    if (index >= 0) mapping[field] = index;
+  });
+  return mapping;
+}
+
+export function parseCsvNumber(value: string, separator: DecimalSeparator) {
+  const text = value.replace(/R\$/g, "").replace(/\s/g, "");
+  if (!text) return NaN;
+  return separator === "comma" ? parseBrazilianNumber(text) : parseFloat(text.replace(/,/g, ""));
+}
+
+/** Parses a date in the given format into UTC midnight, as dates are stored. */
+export function parseCsvDate(value: string, dateFormat: CsvDateFormat) {
+  const date = parse(value.trim(), dateFormat, new Date());
+  if (!isValid(date)) return null;
+  return new Date(Date.UTC(date.getFullYear(), date.getMonth(), date.getDate()));
+}
+
+const cellOf = <F extends string>(cells: string[], mapping: ColumnMapping<F>, field: F) => {
+  const index = mapping[field];
+  return index === undefined ? "" : (cells[index] || "").trim();
+};
+
+/**
+ * Turns mapped CSV rows into transactions of the given type, validating each
+ * one with the same rules as the transaction form, including the decimal
+ * places the portfolio's settings allow in quantities. Without a total column
+ * the total is quantity times price; a fees column is stored as other fees,
+ * since spreadsheets rarely break costs down.
+ */
+export function mapTransactionRows(
+  rows: string[][],
+  mapping: ColumnMapping<TransactionCsvField>,
+  type: TransactionType,
+  options: CsvOptions,
+  portfolio: Pick<Portfolio, "assetClasses" | "quantityPrecision">,
+): CsvRowResult<ImportedTransaction>[] {
+  const schema = transactionSchemaFor(portfolio);
+
+  return rows.map((cells, index) => {
+    // Data rows follow the header line; line numbers are 1-based
+    const line = index + 2;
+    const cell = (field: TransactionCsvField) => cellOf(cells, mapping, field);
+
+    const date = parseCsvDate(cell("date"), options.dateFormat);
+    if (!date) return { line, row: null, error: `Data inválida: "${cell("date")}"` };
+
+    // The decimal helpers throw on NaN, so unreadable numbers are reported before any arithmetic
+    const quantity = parseCsvNumber(cell("quantity"), options.decimalSeparator);
+    if (isNaN(quantity)) return { line, row: null, error: `Quantidade inválida: "${cell("quantity")}"` };
+    const price = parseCsvNumber(cell("price"), options.decimalSeparator);
+    if (isNaN(price)) return { line, row: null, error: `Preço inválido: "${cell("price")}"` };
+    const total = cell("total") ? parseCsvNumber(cell("total"), options.decimalSeparator) : multiply(quantity, price);
+    if (isNaN(total)) return { line, row: null, error: `Valor total inválido: "${cell("total")}"` };
+    const fees = cell("fees") ? parseCsvNumber(cell("fees"), options.decimalSeparator) : 0;
+    if (isNaN(fees)) return { line, row: null, error: `Taxas inválidas: "${cell("fees")}"` };
+
+    const row: ImportedTransaction = {
+      stock_code: cell("stock_code").toUpperCase(),
+      transaction_type: type,
+      quantity,
+      price_per_share: price,
+      total_value: roundMoney(total),
+      transaction_date: date.toISOString(),
+      notes: cell("notes") || null,
+      other_fees: roundMoney(fees),
+    };
+
+    const error = validationError(schema, row);
+    return error ? { line, row: null, error } : { line, row, error: null };
+  });
+}
+
+/**
+ * Turns mapped CSV rows into dividends. Either the gross or the net amount
+ * must be mapped; the other one, and the withholding when it is not given,
+ * follow from the income type.
+ */
+export function mapDividendRows(
+  rows: string[][],
+  mapping: ColumnMapping<DividendCsvField>,
+  options: CsvOptions,
+): CsvRowResult<ImportedDividend>[] {
+  return rows.map((cells, index) => {
+    const line = index + 2;
+    const cell = (field: DividendCsvField) => cellOf(cells, mapping, field);
+
+    const date = parseCsvDate(cell("date"), options.dateFormat);
+    if (!date) return { line, row: null, error: `Data inválida: "${cell("date")}"` };
+
+    const incomeType = INCOME_TYPE_ALIASES[normalizeText(cell("income_type"))];
+    if (!incomeType) return { line, row: null, error: `Tipo de provento desconhecido: "${cell("income_type")}"` };
+
+    const gross = cell("gross_amount") ? parseCsvNumber(cell("gross_amount"), options.decimalSeparator) : NaN;
+    const net = cell("net_amount") ? parseCsvNumber(cell("net_amount"), options.decimalSeparator) : NaN;
+    const withheld = cell("withholding_tax") ? parseCsvNumber(cell("withholding_tax"), options.decimalSeparator) : NaN;
+
+    let grossAmount: number;
+    let withholdingTax: number;
+    if (!isNaN(gross)) {
+      grossAmount = gross;
+      withholdingTax = !isNaN(withheld) ? withheld : !isNaN(net) ? roundMoney(subtract(gross, net)) : calculateWithholding(incomeType, gross);
+    } else if (!isNaN(net)) {
+      grossAmount = !isNaN(withheld) ? roundMoney(sum([net, withheld])) : grossUpNetAmount(incomeType, net);
+      withholdingTax = roundMoney(subtract(grossAmount, net));
+    } else {
+      return { line, row: null, error: "Informe o valor bruto ou o valor líquido" };
+    }
+
+    const row: ImportedDividend = {
+      stock_code: cell("stock_code").toUpperCase(),
+      income_type: incomeType,
+      gross_amount: roundMoney(grossAmount),
+      withholding_tax: roundMoney(withholdingTax),
+      amount: roundMoney(subtract(grossAmount, withholdingTax)),
+      dividend_date: date.toISOString(),
+    };
+
+    const error = validationError(dividendSchema, row);
+    return error ? { line, row: null, error } : { line, row, error: null };
+  });
+}
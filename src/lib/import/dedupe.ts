@@ -0,0 +1,75 @@
+import { roundMoney } from "@/lib/decimal";
+import { dayKey } from "@/lib/portfolio";
+import type { ImportedDividend, ImportedTransaction } from "./types";
+
+/**
+ * How an imported row relates to what is already stored: "duplicate" when an
+ * identical row exists, "conflict" when a row for the same day and asset
+ * exists with different values, "new" otherwise.
+ */
+export type ImportStatus = "new" | "duplicate" | "conflict";
+
+export const IMPORT_STATUS_LABELS: { [key in ImportStatus]: string } = {
+  new: "Novo",
+  duplicate: "Duplicado",
+  conflict: "Conflito",
+};
+
+export interface ReconciledRow<T> {
+  row: T;
+  status: ImportStatus;
+}
+
+type StoredTransaction = Pick<
+  ImportedTransaction,
+  "stock_code" | "transaction_type" | "quantity" | "price_per_share" | "transaction_date"
+>;
+
+type StoredDividend = Pick<ImportedDividend, "stock_code" | "amount" | "dividend_date"> & { income_type?: string };
+
+const countKeys = (keys: string[]) => {
+  const counts = new Map<string, number>();
+  keys.forEach(key => counts.set(key, (counts.get(key) || 0) + 1));
+  return counts;
+};
+
+// Each stored row can only account for one imported row, so repeated identical trades still import
+const take = (counts: Map<string, number>, key: string) => {
+  const count = counts.get(key) || 0;
+  if (count === 0) return false;
+  counts.set(key, count - 1);
+  return true;
+};
+
+const reconcile = <T, S>(
+  imported: T[],
+  stored: S[],
+  exactKey: (row: T | S) => string,
+  looseKey: (row: T | S) => string,
+): ReconciledRow<T>[] => {
+  const exact = countKeys(stored.map(exactKey));
+  const loose = new Set(stored.map(looseKey));
+
+  return imported.map(row => {
+    if (take(exact, exactKey(row))) return { row, status: "duplicate" };
+    return { row, status: loose.has(looseKey(row)) ? "conflict" : "new" };
+  });
+};
+
+export function reconcileTransactions(imported: ImportedTransaction[], stored: StoredTransaction[]) {
+  return reconcile(
+    imported,
+    stored,
+    t => `${dayKey(t.transaction_date)}|${t.stock_code}|${t.transaction_type}|${t.quantity}|${roundMoney(t.price_per_share)}`,
+    t => `${dayKey(t.transaction_date)}|${t.stock_code}|${t.transaction_type}`,
+  );
+}
+
+export function reconcileDividends(imported: ImportedDividend[], stored: StoredDividend[]) {
+  return reconcile(
+    imported,
+    stored,
+    d => `${dayKey(d.dividend_date)}|${d.stock_code}|${d.income_type || "dividend"}|${roundMoney(d.amount)}`,
+    d => `${dayKey(d.dividend_date)}|${d.stock_code}`,
+  );
+}
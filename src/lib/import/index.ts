@@ -0,0 +1,7 @@
+export * from "./types";
+export * from "./parse";
+export * from "./pdf";
+export * from "./sinacor";
+export * from "./dedupe";
+export * from "./b3";
+export * from "./csv";
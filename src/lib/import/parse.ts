@@ -0,0 +1,22 @@
+/** Parses numbers written the Brazilian way ("1.234,56"); returns NaN when invalid. */
+export function parseBrazilianNumber(value: string) {
+  const normalized = value.trim().replace(/\./g, "").replace(",", ".");
+  if (!/^-?\d+(\.\d+)?$/.test(normalized)) return NaN;
+  return parseFloat(normalized);
+}
+
+/** Parses a dd/MM/yyyy date into a UTC midnight Date, or null when invalid. */
+export function parseBrazilianDate(value: string) {
+  const match = value.trim().match(/^(\d{2})\/(\d{2})\/(\d{4})$/);
+  if (!match) return null;
+
+  const [, day, month, year] = match.map(Number);
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return null;
+  return date;
+}
+
+/** Lowercases and strips accents so headers and labels compare loosely. */
+export function normalizeText(value: unknown) {
+  return String(value ?? "").normalize("NFD").replace(/[\u0300-\u036f]/g, "").trim().toLowerCase();
+}
@@ -0,0 +1,53 @@
+import type { TextItem } from "pdfjs-dist/types/src/display/api";
+
+let pdfjs: Promise<typeof import("pdfjs-dist")> | undefined;
+
+// pdf.js is loaded on first use so it stays out of the main bundle
+const loadPdfjs = () =>
+  (pdfjs ??= Promise.all([import("pdfjs-dist"), import("pdfjs-dist/build/pdf.worker.min.mjs?url")]).then(
+    ([library, worker]) => {
+      library.GlobalWorkerOptions.workerSrc = worker.default;
+      return library;
+    },
+  ));
+
+// Text items whose baselines are this close (in PDF units) belong to the same line
+const LINE_TOLERANCE = 2;
+
+/**
+ * Extracts the text of each page of a PDF as lines, rebuilt from the position
+ * of the text items so that table rows read left to right.
+ */
+export async function extractPdfLines(data: ArrayBuffer, password?: string): Promise<string[][]> {
+  const { getDocument } = await loadPdfjs();
+  const document = await getDocument({ data, password }).promise;
+  const pages: string[][] = [];
+
+  for (let pageNumber = 1; pageNumber <= document.numPages; pageNumber++) {
+    const page = await document.getPage(pageNumber);
+    const content = await page.getTextContent();
+    const rows: { y: number; items: { x: number; text: string }[] }[] = [];
+
+    content.items.forEach(item => {
+      const { str, transform } = item as TextItem;
+      if (!str || !str.trim()) return;
+
+      const [x, y] = [transform[4], transform[5]];
+      let row = rows.find(r => Math.abs(r.y - y) <= LINE_TOLERANCE);
+      if (!row) {
+        row = { y, items: [] };
+        rows.push(row);
+      }
+      row.items.push({ x, text: str.trim() });
+    });
+
+    pages.push(
+      rows
+        .sort((a, b) => b.y - a.y)
+        .map(row => row.items.sort((a, b) => a.x - b.x).map(item => item.text).join(" ")),
+    );
+  }
+
+  await document.destroy();
+  return pages;
+}
@@ -0,0 +1,124 @@
+import { describe, expect, it } from "vitest";
+import { sumBy } from "@/lib/decimal";
+import { FEE_FIELDS, transactionFees } from "@/lib/portfolio";
+import { brokerageNoteToTransactions, isBrokerageNoteImported, parseBrokerageNotes, type BrokerageNote } from "./sinacor";
+
+// Text lines as extractPdfLines rebuilds them from a SINACOR note
+const header = (number: string, page: number) => [
+  "NOTA DE CORRETAGEM",
+  "Nr. nota Folha Data pregão",
+  `${number} ${page} 05/03/2024`,
+  "Negócios realizados",
+  "Q Negociação C/V Tipo mercado Prazo Especificação do título Obs. (*) Quantidade Preço / Ajuste Valor Operação / Ajuste D/C",
+];
+
+const feeSummary = [
+  "Resumo Financeiro",
+  "Taxa de liquidação 1,70 D",
+  "Taxa de Registro 0,00 D",
+  "Emolumentos 0,34 D",
+  "Corretagem 4,90 D",
+  "ISS (SÃO PAULO) 0,24 D",
+  "I.R.R.F. s/ operações, base R$ 2.050,00 0,10",
+  "Outros 0,00 D",
+];
+
+const trades = [
+  "1-BOVESPA C VISTA PETR4 PETROBRAS PN N2 100 38,50 3.850,00 D",
+  "1-BOVESPA V VISTA ITAUSA PN N1 200 10,25 2.050,00 C",
+  "1-BOVESPA C FRACIONARIO WEGE3F WEG ON NM 7 36,10 252,70 D",
+];
+
+const optionTrade = "1-BOVESPA C OPCAO DE COMPRA 03/24 PETRC400 PN 38,00 PETR 100 0,50 50,00 D";
+
+const note = (number: string | null): BrokerageNote => ({
+  number,
+  tradeDate: new Date("2024-03-05T00:00:00.000Z"),
+  trades: [
+    { side: "buy", market: "VISTA", specification: "PETROBRAS PN", ticker: "PETR4", quantity: 100, price: 38.5, grossValue: 3850 },
+  ],
+  fees: { settlement: 0, emoluments: 0, brokerage: 0, iss: 0, other: 0, irrf: 0 },
+  totalFees: 0,
+  ignoredLines: [],
+});
+
+describe("parseBrokerageNotes", () => {
+  it("reads the note number, the trade date and the buy and sell trades", () => {
+    const [parsed] = parseBrokerageNotes([[...header("12345", 1), ...trades, ...feeSummary]]);
+
+    expect(parsed.number).toBe("12345");
+    expect(parsed.tradeDate).toEqual(new Date("2024-03-05T00:00:00.000Z"));
+    expect(parsed.trades).toEqual([
+      { side: "buy", market: "VISTA", specification: "PETR4 PETROBRAS PN N2", ticker: "PETR4", quantity: 100, price: 38.5, grossValue: 3850 },
+      { side: "sell", market: "VISTA", specification: "ITAUSA PN N1", ticker: "", quantity: 200, price: 10.25, grossValue: 2050 },
+      { side: "buy", market: "FRACIONARIO", specification: "WEGE3F WEG ON NM", ticker: "WEGE3F", quantity: 7, price: 36.1, grossValue: 252.7 },
+    ]);
+  });
+
+  it("reads the fee summary, keeping withheld income tax out of the costs", () => {
+    const [parsed] = parseBrokerageNotes([[...header("12345", 1), ...trades, ...feeSummary]]);
+
+    expect(parsed.fees).toEqual({ settlement: 1.7, emoluments: 0.34, brokerage: 4.9, iss: 0.24, other: 0, irrf: 0.1 });
+    expect(parsed.totalFees).toBe(7.18);
+  });
+
+  it("reports trades outside the cash market as ignored", () => {
+    const [parsed] = parseBrokerageNotes([[...header("12345", 1), trades[0], optionTrade, ...feeSummary]]);
+
+    expect(parsed.trades.map(trade => trade.ticker)).toEqual(["PETR4"]);
+    expect(parsed.ignoredLines).toEqual([optionTrade]);
+  });
+
+  it("joins the pages of a note and keeps the next note apart", () => {
+    const parsed = parseBrokerageNotes([
+      [...header("12345", 1), trades[0], trades[1]],
+      [...header("12345", 2), trades[2], ...feeSummary],
+      [...header("12346", 1), trades[0], "Corretagem 4,90 D"],
+    ]);
+
+    expect(parsed.map(({ number, trades }) => [number, trades.length])).toEqual([["12345", 3], ["12346", 1]]);
+    expect(parsed[0].totalFees).toBe(7.18);
+    expect(parsed[1].totalFees).toBe(4.9);
+  });
+
+  it("skips pages without a trade date or trades", () => {
+    expect(parseBrokerageNotes([["Extrato de custódia"], [...header("12345", 1), ...feeSummary]])).toEqual([]);
+  });
+});
+
+describe("brokerageNoteToTransactions", () => {
+  const [parsed] = parseBrokerageNotes([[...header("12345", 1), ...trades, ...feeSummary]]);
+
+  it("splits the note's fees by trade value, adding up to the note's total", () => {
+    const rows = brokerageNoteToTransactions(parsed);
+
+    expect(rows.map(row => transactionFees(row))).toEqual([4.49, 2.39, 0.3]);
+    expect(sumBy(rows, row => transactionFees(row))).toBe(parsed.totalFees);
+    FEE_FIELDS.forEach(field => {
+      expect(sumBy(rows, row => row[field] || 0)).toBe(
+        { settlement_fee: 1.7, exchange_fee: 0.34, brokerage_fee: 5.14, other_fees: 0 }[field],
+      );
+    });
+  });
+
+  it("splits the fees across the selected trades only", () => {
+    const rows = brokerageNoteToTransactions(parsed, [0, 2]);
+
+    expect(rows.map(row => row.stock_code)).toEqual(["PETR4", "WEGE3F"]);
+    expect(sumBy(rows, row => transactionFees(row))).toBe(parsed.totalFees);
+  });
+});
+
+describe("isBrokerageNoteImported", () => {
+  it("recognizes the rows the note itself imports", () => {
+    expect(isBrokerageNoteImported(note("12345"), brokerageNoteToTransactions(note("12345")))).toBe(true);
+  });
+
+  it("does not confuse notes whose numbers share a prefix", () => {
+    expect(isBrokerageNoteImported(note("1234"), brokerageNoteToTransactions(note("12345")))).toBe(false);
+  });
+
+  it("cannot tell for notes without a number", () => {
+    expect(isBrokerageNoteImported(note(null), brokerageNoteToTransactions(note(null)))).toBe(false);
+  });
+});
@@ -0,0 +1,218 @@
+import { FEE_FIELDS, NO_FEES, type FeeField, type TransactionFees } from "@/lib/portfolio";
+import { divide, multiply, roundMoney, subtract, sum, sumBy } from "@/lib/decimal";
+import { parseBrazilianDate, parseBrazilianNumber } from "./parse";
+import type { ImportedTransaction } from "./types";
+
+export interface BrokerageNoteFees {
+  settlement: number;
+  emoluments: number;
+  brokerage: number;
+  iss: number;
+  other: number;
+  // Withheld income tax ("dedo-duro"): an advance on the monthly tax, not a cost
+  irrf: number;
+}
+
+export interface BrokerageNoteTrade {
+  side: "buy" | "sell";
+  market: string;
+  specification: string;
+  ticker: string;
+  quantity: number;
+  price: number;
+  grossValue: number;
+}
+
+export interface BrokerageNote {
+  number: string | null;
+  tradeDate: Date;
+  trades: BrokerageNoteTrade[];
+  fees: BrokerageNoteFees;
+  totalFees: number;
+  ignoredLines: string[];
+}
+
+export const BROKERAGE_NOTE_FEE_LABELS: { [key in keyof BrokerageNoteFees]: string } = {
+  settlement: "Taxa de liquidação / registro",
+  emoluments: "Emolumentos",
+  brokerage: "Corretagem",
+  iss: "ISS",
+  other: "Outros",
+  irrf: "IRRF",
+};
+
+// Where each cost of the note's summary is stored on a transaction; ISS is levied on the brokerage fee
+const FEE_COLUMNS: { [key in Exclude<keyof BrokerageNoteFees, "irrf">]: FeeField } = {
+  settlement: "settlement_fee",
+  emoluments: "exchange_fee",
+  brokerage: "brokerage_fee",
+  iss: "brokerage_fee",
+  other: "other_fees",
+};
+
+const TRADE_LINE = new RegExp(
+  "^(?:1-BOVESPA|BOVESPA|B3 RV LISTADO)\\s+([CV])\\s+" +
+  "(VISTA|FRACIONARIO|OPCAO DE COMPRA|OPCAO DE VENDA|EXERC OPC COMPRA|EXERC OPC VENDA|TERMO)\\s+" +
+  "(.+?)\\s+(\\d{1,3}(?:\\.\\d{3})*)\\s+(\\d{1,3}(?:\\.\\d{3})*,\\d{2,})\\s+(\\d{1,3}(?:\\.\\d{3})*,\\d{2})\\s+([DC])$",
+  "i",
+);
+
+// Only cash-market trades become transactions; options and forwards are reported as ignored
+const SUPPORTED_MARKETS = new Set(["VISTA", "FRACIONARIO"]);
+
+const TICKER = /\b([A-Z]{4}\d{1,2}F?)\b/;
+
+const MONEY = "(\\d{1,3}(?:\\.\\d{3})*,\\d{2})";
+
+const FEE_PATTERNS: { [key in keyof BrokerageNoteFees]: RegExp[] } = {
+  settlement: [/Taxa de liquida[cç][aã]o/i, /Taxa de Registro/i],
+  emoluments: [/Emolumentos/i, /Taxa de termo\s*\/\s*op[cç][oõ]es/i, /Taxa A\.?N\.?A\.?/i],
+  brokerage: [/Taxa Operacional/i, /Corretagem(?! \/)/i, /Execu[cç][aã]o(?! casa)/i, /Taxa de Cust[oó]dia/i],
+  iss: [/\bISS\b(?:\s*\([^)]*\))?/i],
+  other: [/\bOutros\b/i],
+  irrf: [/I\.?R\.?R\.?F\.? s\/\s*opera[cç][oõ]es(?:,\s*base\s*R?\$?\s*[\d.,]+)?/i],
+};
+
+const sumFee = (text: string, patterns: RegExp[]) => {
+  return sumBy(patterns, pattern => {
+    const match = text.match(new RegExp(`${pattern.source}\\s+${MONEY}`, "i"));
+    return match ? parseBrazilianNumber(match[1]) : 0;
+  });
+};
+
+const parseNoteNumber = (text: string) => {
+  const match = text.match(/Nr\.?\s*nota\s+Folha\s+Data preg[aã]o\s+(\d+)/i);
+  return match ? match[1] : null;
+};
+
+const parseTradeDate = (text: string) => {
+  const match = text.match(/Data preg[aã]o[\s\S]*?(\d{2}\/\d{2}\/\d{4})/i);
+  return match ? parseBrazilianDate(match[1]) : null;
+};
+
+/**
+ * Groups the pages of a PDF into brokerage notes. A note spanning several
+ * pages repeats its header on each one, so consecutive pages sharing a note
+ * number belong together.
+ */
+const groupPages = (pages: string[][]) => {
+  const groups: { number: string | null; lines: string[] }[] = [];
+
+  pages.forEach(lines => {
+    const number = parseNoteNumber(lines.join(" "));
+    const last = groups[groups.length - 1];
+    if (last && number && last.number === number) {
+      last.lines.push(...lines);
+    } else {
+      groups.push({ number, lines: [...lines] });
+    }
+  });
+  return groups;
+};
+
+/**
+ * Splits each of the note's costs across the given trades in proportion to
+ * their value, handing the rounding remainder to the last trade so the cents
+ * add up.
+ */
+const apportionFees = (trades: BrokerageNoteTrade[], fees: BrokerageNoteFees): TransactionFees[] => {
+  const shares = trades.map(() => ({ ...NO_FEES }));
+  const totalValue = sumBy(trades, trade => trade.grossValue);
+  if (totalValue === 0) return shares;
+
+  const columnTotals = { ...NO_FEES };
+  (Object.keys(FEE_COLUMNS) as (keyof typeof FEE_COLUMNS)[]).forEach(key => {
+    columnTotals[FEE_COLUMNS[key]] = sum([columnTotals[FEE_COLUMNS[key]], fees[key]]);
+  });
+
+  FEE_FIELDS.forEach(field => {
+    let allocated = 0;
+    trades.forEach((trade, index) => {
+      shares[index][field] = index === trades.length - 1
+        ? roundMoney(subtract(columnTotals[field], allocated))
+        : roundMoney(divide(multiply(columnTotals[field], trade.grossValue), totalValue));
+      allocated = sum([allocated, shares[index][field]]);
+    });
+  });
+  return shares;
+};
+
+/**
+ * Parses SINACOR-standard brokerage notes (notas de corretagem) from the text
+ * lines of each PDF page. Fees are read from the note's financial summary;
+ * they are split across trades only when the trades are imported.
+ */
+export function parseBrokerageNotes(pages: string[][]): BrokerageNote[] {
+  return groupPages(pages).flatMap(group => {
+    const text = group.lines.join("\n");
+    const tradeDate = parseTradeDate(text);
+    if (!tradeDate) return [];
+
+    const trades: BrokerageNoteTrade[] = [];
+    const ignoredLines: string[] = [];
+
+    group.lines.forEach(line => {
+      const match = line.trim().match(TRADE_LINE);
+      if (!match) return;
+
+      const [, side, market, specification, quantity, price, value] = match;
+      if (!SUPPORTED_MARKETS.has(market.toUpperCase())) {
+        ignoredLines.push(line.trim());
+        return;
+      }
+
+      const tickerMatch = specification.toUpperCase().match(TICKER);
+      trades.push({
+        side: side.toUpperCase() === "C" ? "buy" : "sell",
+        market: market.toUpperCase(),
+        specification: specification.trim(),
+        ticker: tickerMatch ? tickerMatch[1] : "",
+        quantity: parseBrazilianNumber(quantity),
+        price: parseBrazilianNumber(price),
+        grossValue: parseBrazilianNumber(value),
+      });
+    });
+
+    if (trades.length === 0 && ignoredLines.length === 0) return [];
+
+    const fees = Object.fromEntries(
+      Object.entries(FEE_PATTERNS).map(([key, patterns]) => [key, roundMoney(sumFee(text, patterns))]),
+    ) as unknown as BrokerageNoteFees;
+    const totalFees = roundMoney(sum([fees.settlement, fees.emoluments, fees.brokerage, fees.iss, fees.other]));
+
+    return [{ number: group.number, tradeDate, trades, fees, totalFees, ignoredLines }];
+  });
+}
+
+const brokerageNoteText = (number: string | null) => number ? `Nota de corretagem nº ${number}` : "Nota de corretagem";
+
+/** Whether trades from the note were already stored, going by the text each import writes to notes. */
+export function isBrokerageNoteImported(note: BrokerageNote, stored: { notes?: string | null }[]) {
+  if (!note.number) return false;
+  const text = brokerageNoteText(note.number);
+  return stored.some(t => t.notes === text);
+}
+
+/**
+ * Turns the trades at the given indexes (all of them by default) into
+ * transaction rows. The note's fees are split across those trades only, so
+ * leaving a trade out does not lose its share.
+ */
+export function brokerageNoteToTransactions(
+  note: BrokerageNote,
+  tradeIndexes = note.trades.map((_, index) => index),
+): ImportedTransaction[] {
+  const trades = tradeIndexes.map(index => note.trades[index]);
+  const fees = apportionFees(trades, note.fees);
+
+  return trades.map((trade, index) => ({
+    stock_code: trade.ticker.toUpperCase(),
+    transaction_type: trade.side,
+    quantity: trade.quantity,
+    price_per_share: trade.price,
+    total_value: roundMoney(trade.grossValue),
+    transaction_date: note.tradeDate.toISOString(),
+    notes: brokerageNoteText(note.number),
+    ...fees[index],
+  }));
+}
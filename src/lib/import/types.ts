@@ -0,0 +1,30 @@
+import type { IncomeType, TransactionFees, TransactionType } from "@/lib/portfolio";
+
+/** A transaction read from an external file, ready to be reviewed and inserted. */
+export interface ImportedTransaction extends Partial<TransactionFees> {
+  stock_code: string;
+  transaction_type: TransactionType;
+  quantity: number;
+  price_per_share: number;
+  total_value: number;
+  transaction_date: string;
+  notes: string | null;
+}
+
+/** A dividend, JCP or FII distribution read from an external file. */
+export interface ImportedDividend {
+  stock_code: string;
+  income_type: IncomeType;
+  gross_amount: number;
+  withholding_tax: number;
+  amount: number;
+  dividend_date: string;
+}
+
+/** A line of an imported file that could not be turned into a row. */
+export interface UnmatchedLine {
+  source: string;
+  line: number;
+  content: string;
+  reason: string;
+}
@@ -0,0 +1,78 @@
+import { baseTicker } from "./ticker";
+
+export type AssetClass = "stock" | "fii" | "etf" | "bdr" | "fund" | "crypto";
+
+export const ASSET_CLASS_LABELS: { [key in AssetClass]: string } = {
+  stock: "Ações",
+  fii: "Fundos Imobiliários",
+  etf: "ETFs",
+  bdr: "BDRs",
+  fund: "Fundos de Investimento",
+  crypto: "Criptoativos",
+};
+
+export const ASSET_CLASSES = Object.keys(ASSET_CLASS_LABELS) as AssetClass[];
+
+export type AssetClassMap = { [ticker: string]: AssetClass };
+
+export type QuantityPrecision = { [key in AssetClass]: number };
+
+// Decimal places allowed in quantities. Listed assets trade in whole units,
+// fund quotas carry six places and crypto the eight of a satoshi.
+export const DEFAULT_QUANTITY_PRECISION: QuantityPrecision = {
+  stock: 0,
+  fii: 0,
+  etf: 0,
+  bdr: 0,
+  fund: 6,
+  crypto: 8,
+};
+
+// Quantities are stored as NUMERIC(24, 8)
+export const MAX_QUANTITY_PRECISION = 8;
+
+// Tickers ending in 11 are usually FIIs, except for these ETFs and stock units
+const KNOWN_ETFS = new Set([
+  "BOVA11", "BOVV11", "BOVX11", "BRAX11", "DIVO11", "ECOO11", "FIND11", "GOLD11", "HASH11", "IVVB11",
+  "MATB11", "NASD11", "PIBB11", "SMAC11", "SMAL11", "SPXI11", "XINA11", "ACWI11", "EURP11", "BBSD11",
+  "FIXA11", "IMAB11", "IRFM11", "B5P211", "XFIX11",
+]);
+
+const KNOWN_UNITS = new Set([
+  "ALUP11", "BPAC11", "ENGI11", "IGTI11", "KLBN11", "RNEW11", "SANB11", "SAPR11", "TAEE11", "SULA11",
+]);
+
+export function isAssetClass(value: unknown): value is AssetClass {
+  return typeof value === "string" && value in ASSET_CLASS_LABELS;
+}
+
+/** Best-effort guess of a ticker's asset class from B3 naming conventions. */
+export function inferAssetClass(ticker: string): AssetClass {
+  const code = baseTicker(ticker);
+
+  if (/^[A-Z]{4}3[1-59]$/.test(code)) return "bdr";
+  if (KNOWN_ETFS.has(code)) return "etf";
+  if (KNOWN_UNITS.has(code)) return "stock";
+  if (/^[A-Z]{4}11$/.test(code)) return "fii";
+  return "stock";
+}
+
+/**
+ * Applies a user's per-class overrides on top of the default precision,
+ * ignoring anything that is not a whole number of places the database can hold.
+ */
+export function resolveQuantityPrecision(overrides: unknown): QuantityPrecision {
+  const precision = { ...DEFAULT_QUANTITY_PRECISION };
+  if (!overrides || typeof overrides !== "object") return precision;
+
+  Object.entries(overrides).forEach(([assetClass, places]) => {
+    if (isAssetClass(assetClass) && Number.isInteger(places) && places >= 0 && places <= MAX_QUANTITY_PRECISION) {
+      precision[assetClass] = places;
+    }
+  });
+  return precision;
+}
+
+export function resolveAssetClass(ticker: string, assetClasses: AssetClassMap = {}): AssetClass {
+  return assetClasses[ticker] || inferAssetClass(ticker);
+}
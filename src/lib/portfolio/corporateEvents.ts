@@ -0,0 +1,117 @@
+import { divide, multiply, subtract, sumBy } from "@/lib/decimal";
+import type { CorporateEventInput, CorporateEventType, Lot } from "./types";
+
+export const CORPORATE_EVENT_LABELS: { [key in CorporateEventType]: string } = {
+  split: "Desdobramento",
+  reverse_split: "Grupamento",
+  bonus: "Bonificação",
+  ticker_change: "Mudança de código",
+  merger: "Incorporação / fusão",
+};
+
+export const CORPORATE_EVENT_TYPES = Object.keys(CORPORATE_EVENT_LABELS) as CorporateEventType[];
+
+export function isCorporateEventType(value: unknown): value is CorporateEventType {
+  return typeof value === "string" && value in CORPORATE_EVENT_LABELS;
+}
+
+export function isTickerMove(event: CorporateEventInput) {
+  return (event.event_type === "ticker_change" || event.event_type === "merger") && !!event.new_ticker;
+}
+
+/**
+ * Builds a lookup from a ticker as typed on a given date to the ticker the
+ * position was trading under at that time, following chained changes
+ * (A -> B -> C). Without a date it resolves to the most recent ticker.
+ */
+export function buildTickerResolver(events: CorporateEventInput[]) {
+  const moves = events
+    .filter(isTickerMove)
+    .map(event => ({ from: event.ticker, to: event.new_ticker!, date: new Date(event.event_date) }))
+    .sort((a, b) => a.date.getTime() - b.date.getTime());
+
+  return (ticker: string, date?: Date) => {
+    let current = ticker;
+    const visited = new Set([current]);
+
+    for (const move of moves) {
+      if (date && move.date > date) break;
+      if (move.from === current && !visited.has(move.to)) {
+        current = move.to;
+        visited.add(current);
+      }
+    }
+    return current;
+  };
+}
+
+/**
+ * Carries lots across a ticker change or merger. Quantities follow the
+ * exchange ratio and the cost basis moves over unchanged, except that cash
+ * paid per share in a merger is treated as a return of capital and reduces
+ * the cost (never below zero).
+ */
+export function transferLots(lots: Lot[], event: CorporateEventInput): Lot[] {
+  const factor = divide(event.ratio_to, event.ratio_from);
+  const heldQuantity = sumBy(lots, lot => lot.quantity);
+  const totalCost = sumBy(lots, lot => lot.cost);
+  if (heldQuantity === 0 || !(factor > 0)) return [];
+
+  const cash = multiply(event.cash_per_share || 0, heldQuantity);
+  const costFactor = totalCost > 0 ? divide(Math.max(0, subtract(totalCost, cash)), totalCost) : 1;
+
+  return lots.map(lot => {
+    const quantity = multiply(lot.quantity, factor);
+    const cost = multiply(lot.cost, costFactor);
+
+    return {
+      ...lot,
+      stockCode: event.new_ticker!,
+      originalStockCode: lot.originalStockCode || lot.stockCode,
+      originalQuantity: multiply(lot.originalQuantity, factor),
+      quantity,
+      cost,
+      unitCost: divide(cost, quantity),
+    };
+  });
+}
+
+/**
+ * Applies a corporate event to the lots held on its date. Splits and reverse
+ * splits rescale every lot's quantity keeping its cost, so the unit cost moves
+ * in the opposite direction. Bonus shares arrive as a new lot costed at the
+ * value per share announced in the B3 notice (zero when none was given).
+ */
+export function applyCorporateEvent(lots: Lot[], event: CorporateEventInput, date: Date): Lot[] {
+  const factor = divide(event.ratio_to, event.ratio_from);
+  const heldQuantity = sumBy(lots, lot => lot.quantity);
+  if (heldQuantity === 0 || !(factor > 0)) return lots;
+
+  if (event.event_type === "bonus") {
+    // Fractions of bonus shares are auctioned by the company, not delivered
+    const bonusQuantity = Math.floor(multiply(heldQuantity, factor));
+    if (bonusQuantity === 0) return lots;
+
+    const unitCost = event.unit_cost || 0;
+    return [
+      ...lots,
+      {
+        transactionId: undefined,
+        stockCode: event.ticker,
+        date,
+        originalQuantity: bonusQuantity,
+        quantity: bonusQuantity,
+        unitCost,
+        cost: multiply(bonusQuantity, unitCost),
+        dividends: 0,
+      },
+    ];
+  }
+
+  lots.forEach(lot => {
+    lot.quantity = multiply(lot.quantity, factor);
+    lot.originalQuantity = multiply(lot.originalQuantity, factor);
+    lot.unitCost = divide(lot.cost, lot.quantity);
+  });
+  return lots;
+}
@@ -0,0 +1,86 @@
+import { divide, multiply, subtract, sum, sumBy } from "@/lib/decimal";
+import type { Lot } from "./types";
+
+export type CostBasisMethod = "average" | "fifo" | "specific";
+
+export const DEFAULT_COST_BASIS_METHOD: CostBasisMethod = "average";
+
+export const COST_BASIS_METHOD_LABELS: { [key in CostBasisMethod]: string } = {
+  average: "Preço médio (Receita Federal)",
+  fifo: "PEPS / FIFO",
+  specific: "Identificação de lotes",
+};
+
+export interface LotSelection {
+  transaction_id: string;
+  quantity: number;
+}
+
+export interface LotMatch {
+  lot: Lot;
+  quantity: number;
+}
+
+export function isCostBasisMethod(value: unknown): value is CostBasisMethod {
+  return value === "average" || value === "fifo" || value === "specific";
+}
+
+/**
+ * Pools the cost of every open lot so they all carry the position's average
+ * unit cost, which is how the Receita Federal average price rule treats a
+ * position after each purchase.
+ */
+export function applyAverageCost(lots: Lot[]) {
+  const quantity = sumBy(lots, lot => lot.quantity);
+  if (quantity === 0) return;
+
+  const avgPrice = divide(sumBy(lots, lot => lot.cost), quantity);
+  lots.forEach(lot => {
+    lot.unitCost = avgPrice;
+    lot.cost = multiply(lot.quantity, avgPrice);
+  });
+}
+
+/**
+ * Decides which open lots a sale consumes. Lots named in the sale's lot
+ * selections go first (specific identification only); whatever is left is
+ * matched against the oldest lots.
+ */
+export function planLotMatches(
+  lots: Lot[],
+  quantity: number,
+  method: CostBasisMethod,
+  selections?: LotSelection[] | null,
+): LotMatch[] {
+  const available = new Map(lots.map(lot => [lot, lot.quantity]));
+  const matches: LotMatch[] = [];
+  let remaining = quantity;
+
+  const take = (lot: Lot, wanted: number) => {
+    const matched = Math.min(wanted, available.get(lot) || 0, remaining);
+    if (matched <= 0) return;
+
+    const existing = matches.find(m => m.lot === lot);
+    if (existing) {
+      existing.quantity = sum([existing.quantity, matched]);
+    } else {
+      matches.push({ lot, quantity: matched });
+    }
+    available.set(lot, subtract(available.get(lot) || 0, matched));
+    remaining = subtract(remaining, matched);
+  };
+
+  if (method === "specific" && selections) {
+    selections.forEach(selection => {
+      const lot = lots.find(l => l.transactionId === selection.transaction_id);
+      if (lot) take(lot, selection.quantity);
+    });
+  }
+
+  for (const lot of lots) {
+    if (remaining <= 0) break;
+    take(lot, remaining);
+  }
+
+  return matches;
+}
@@ -0,0 +1,94 @@
+import { divide, multiply, subtract, sumBy } from "@/lib/decimal";
+import { netTransactionValue, NO_FEES } from "./fees";
+import type { TransactionInput } from "./types";
+
+export interface DayTradeMatch {
+  stockCode: string;
+  date: Date;
+  buyTransactionIds: string[];
+  sellTransactionId?: string;
+  quantity: number;
+  buyPrice: number;
+  sellPrice: number;
+}
+
+export interface DayTradeSplit {
+  swingTransactions: TransactionInput[];
+  dayTrades: DayTradeMatch[];
+}
+
+// Transaction dates are stored as UTC midnight, so the trading day is read in UTC
+export const dayKey = (date: string | Date) => new Date(date).toISOString().slice(0, 10);
+
+const byCreation = (a: TransactionInput, b: TransactionInput) =>
+  (a.created_at || "").localeCompare(b.created_at || "");
+
+/**
+ * Separates day trades (a buy and a sell of the same asset on the same day)
+ * from swing trades. Following the Receita Federal rule, the day trade
+ * quantity is the smaller of the day's bought and sold quantities, priced at
+ * the day's average purchase and sale prices, net of fees. Whatever is left
+ * over on either side is returned as a swing transaction at those same
+ * average prices, with its share of the fees already folded in.
+ */
+export function splitDayTrades(transactions: TransactionInput[]): DayTradeSplit {
+  const groups: { [key: string]: TransactionInput[] } = {};
+  transactions.forEach(t => {
+    const key = `${t.stock_code}|${dayKey(t.transaction_date)}`;
+    if (!groups[key]) groups[key] = [];
+    groups[key].push(t);
+  });
+
+  const swingTransactions: TransactionInput[] = [];
+  const dayTrades: DayTradeMatch[] = [];
+
+  Object.values(groups).forEach(group => {
+    const buys = group.filter(t => t.transaction_type === "buy").sort(byCreation);
+    const sells = group.filter(t => t.transaction_type === "sell").sort(byCreation);
+
+    if (buys.length === 0 || sells.length === 0) {
+      swingTransactions.push(...group);
+      return;
+    }
+
+    const boughtQuantity = sumBy(buys, t => t.quantity);
+    const soldQuantity = sumBy(sells, t => t.quantity);
+    const buyPrice = divide(sumBy(buys, netTransactionValue), boughtQuantity);
+    const sellPrice = divide(sumBy(sells, netTransactionValue), soldQuantity);
+    const dayTradeQuantity = Math.min(boughtQuantity, soldQuantity);
+
+    let remainingBuys = dayTradeQuantity;
+    buys.forEach(t => {
+      const used = Math.min(t.quantity, remainingBuys);
+      const leftover = subtract(t.quantity, used);
+      remainingBuys = subtract(remainingBuys, used);
+      if (leftover > 0) {
+        swingTransactions.push({ ...t, quantity: leftover, total_value: multiply(leftover, buyPrice), ...NO_FEES });
+      }
+    });
+
+    let remainingSells = dayTradeQuantity;
+    sells.forEach(t => {
+      const used = Math.min(t.quantity, remainingSells);
+      const leftover = subtract(t.quantity, used);
+      remainingSells = subtract(remainingSells, used);
+
+      if (used > 0) {
+        dayTrades.push({
+          stockCode: t.stock_code,
+          date: new Date(t.transaction_date),
+          buyTransactionIds: buys.map(b => b.id).filter(Boolean) as string[],
+          sellTransactionId: t.id,
+          quantity: used,
+          buyPrice,
+          sellPrice,
+        });
+      }
+      if (leftover > 0) {
+        swingTransactions.push({ ...t, quantity: leftover, total_value: multiply(leftover, sellPrice), ...NO_FEES });
+      }
+    });
+  });
+
+  return { swingTransactions, dayTrades };
+}
@@ -0,0 +1,265 @@
+import { describe, expect, it } from "vitest";
+import { buildPortfolio, positionOn } from "./engine";
+import type { TransactionInput } from "./types";
+
+let sequence = 0;
+
+const trade = (
+  transaction_type: TransactionInput["transaction_type"],
+  stock_code: string,
+  quantity: number,
+  price_per_share: number,
+  date: string,
+): TransactionInput => {
+  sequence += 1;
+  return {
+    id: `t${sequence}`,
+    stock_code,
+    transaction_type,
+    quantity,
+    price_per_share,
+    total_value: quantity * price_per_share,
+    transaction_date: `${date}T00:00:00.000Z`,
+    // Keeps same-day trades in the order they are declared
+    created_at: `${date}T12:00:00.${String(sequence).padStart(3, "0")}Z`,
+  };
+};
+
+const buy = (stock: string, quantity: number, price: number, date: string) => trade("buy", stock, quantity, price, date);
+const sell = (stock: string, quantity: number, price: number, date: string) => trade("sell", stock, quantity, price, date);
+
+describe("buildPortfolio", () => {
+  describe("partial sells", () => {
+    it("realizes the sold shares at the average cost and keeps the rest open", () => {
+      const portfolio = buildPortfolio([
+        buy("PETR4", 100, 10, "2024-01-02"),
+        buy("PETR4", 100, 12, "2024-01-10"),
+        sell("PETR4", 50, 15, "2024-02-01"),
+      ], []);
+
+      expect(portfolio.positions).toHaveLength(1);
+      expect(portfolio.positions[0]).toMatchObject({ stockCode: "PETR4", side: "long", quantity: 150, totalCost: 1650, avgPrice: 11 });
+
+      expect(portfolio.closedPositions).toHaveLength(1);
+      expect(portfolio.closedPositions[0]).toMatchObject({ quantity: 50, buyValue: 550, sellValue: 750, returnReais: 200 });
+      expect(portfolio.sales).toEqual([
+        expect.objectContaining({ stockCode: "PETR4", tradeType: "swing", quantity: 50, grossValue: 750, cost: 550, result: 200 }),
+      ]);
+      expect(portfolio.realizedResult).toBe(200);
+      expect(portfolio.totalInvested).toBe(1650);
+    });
+
+    it("matches the oldest lots first under FIFO", () => {
+      const portfolio = buildPortfolio([
+        buy("VALE3", 100, 10, "2024-01-02"),
+        buy("VALE3", 100, 12, "2024-01-10"),
+        sell("VALE3", 150, 15, "2024-02-01"),
+      ], [], { costBasisMethod: "fifo" });
+
+      expect(portfolio.positions[0]).toMatchObject({ quantity: 50, totalCost: 600, avgPrice: 12 });
+      expect(portfolio.closedPositions.map(p => [p.quantity, p.buyPrice])).toEqual(
+        expect.arrayContaining([[100, 10], [50, 12]]),
+      );
+      expect(portfolio.realizedResult).toBe(650);
+    });
+
+    it("closes the position when everything is sold", () => {
+      const portfolio = buildPortfolio([
+        buy("ITSA4", 100, 10, "2024-01-02"),
+        sell("ITSA4", 60, 11, "2024-02-01"),
+        sell("ITSA4", 40, 9, "2024-03-01"),
+      ], []);
+
+      expect(portfolio.positions).toEqual([]);
+      expect(portfolio.realizedResult).toBe(20);
+      expect(portfolio.totalInvested).toBe(0);
+    });
+  });
+
+  describe("oversells", () => {
+    it("realizes only the held shares, warns, and opens a short for the excess", () => {
+      const oversell = sell("BBAS3", 15, 12, "2024-02-01");
+      const portfolio = buildPortfolio([buy("BBAS3", 10, 10, "2024-01-02"), oversell], []);
+
+      expect(portfolio.sales).toEqual([
+        expect.objectContaining({ transactionId: oversell.id, quantity: 10, grossValue: 120, cost: 100, result: 20 }),
+      ]);
+      expect(portfolio.warnings).toEqual([
+        expect.objectContaining({ type: "oversell", stockCode: "BBAS3", transactionId: oversell.id, quantity: 5 }),
+      ]);
+      expect(portfolio.positions).toEqual([
+        expect.objectContaining({ stockCode: "BBAS3", side: "short", quantity: -5, totalCost: -60, avgPrice: 12 }),
+      ]);
+    });
+
+    it("treats a sale with nothing held as a short sale", () => {
+      const portfolio = buildPortfolio([sell("WEGE3", 10, 40, "2024-02-01")], []);
+
+      expect(portfolio.sales).toEqual([]);
+      expect(portfolio.warnings).toEqual([expect.objectContaining({ type: "oversell", quantity: 10 })]);
+      expect(portfolio.positions[0]).toMatchObject({ side: "short", quantity: -10, totalCost: -400 });
+    });
+
+    it("realizes the short when a later buy covers it", () => {
+      const portfolio = buildPortfolio([
+        sell("WEGE3", 10, 40, "2024-02-01"),
+        buy("WEGE3", 15, 35, "2024-03-01"),
+      ], []);
+
+      expect(portfolio.closedPositions).toEqual([
+        expect.objectContaining({ side: "short", quantity: 10, sellValue: 400, buyValue: 350, returnReais: 50 }),
+      ]);
+      expect(portfolio.sales).toEqual([expect.objectContaining({ quantity: 10, grossValue: 400, cost: 350, result: 50 })]);
+      expect(portfolio.positions).toEqual([
+        expect.objectContaining({ side: "long", quantity: 5, totalCost: 175 }),
+      ]);
+    });
+  });
+
+  describe("same-day trades", () => {
+    it("settles a buy and sell on the same day as a day trade without touching held lots", () => {
+      const dayBuy = buy("PETR4", 50, 12, "2024-02-01");
+      const daySell = sell("PETR4", 50, 13, "2024-02-01");
+      const portfolio = buildPortfolio([buy("PETR4", 100, 10, "2024-01-02"), dayBuy, daySell], []);
+
+      expect(portfolio.positions[0]).toMatchObject({ quantity: 100, totalCost: 1000, avgPrice: 10 });
+      expect(portfolio.closedPositions).toEqual([
+        expect.objectContaining({ tradeType: "day", quantity: 50, buyPrice: 12, sellPrice: 13, returnReais: 50, days: 0 }),
+      ]);
+      expect(portfolio.sales).toEqual([expect.objectContaining({ tradeType: "day", quantity: 50, result: 50 })]);
+      expect(portfolio.dayTradeTransactionIds).toEqual(expect.arrayContaining([dayBuy.id, daySell.id]));
+    });
+
+    it("carries the unmatched part of a same-day trade into the swing position", () => {
+      const portfolio = buildPortfolio([
+        buy("VALE3", 100, 10, "2024-02-01"),
+        sell("VALE3", 40, 11, "2024-02-01"),
+      ], []);
+
+      expect(portfolio.closedPositions).toEqual([expect.objectContaining({ tradeType: "day", quantity: 40, returnReais: 40 })]);
+      expect(portfolio.positions[0]).toMatchObject({ quantity: 60, totalCost: 600, avgPrice: 10 });
+    });
+
+    it("prices day trades at the day's average purchase and sale prices", () => {
+      const portfolio = buildPortfolio([
+        buy("ITUB4", 100, 10, "2024-02-01"),
+        buy("ITUB4", 100, 12, "2024-02-01"),
+        sell("ITUB4", 200, 12, "2024-02-01"),
+      ], []);
+
+      expect(portfolio.positions).toEqual([]);
+      expect(portfolio.closedPositions).toEqual([
+        expect.objectContaining({ tradeType: "day", quantity: 200, buyPrice: 11, sellPrice: 12, returnReais: 200 }),
+      ]);
+    });
+
+    it("keeps trades on different tickers on the same day apart", () => {
+      const portfolio = buildPortfolio([
+        buy("PETR4", 10, 10, "2024-02-01"),
+        sell("VALE3", 10, 10, "2024-02-01"),
+      ], []);
+
+      expect(portfolio.dayTradeTransactionIds).toEqual([]);
+      expect(portfolio.positions.map(p => [p.stockCode, p.side])).toEqual([["PETR4", "long"], ["VALE3", "short"]]);
+    });
+  });
+
+  describe("closing and re-entering a position", () => {
+    it("keeps the remaining capital at the average cost after a partial sale", () => {
+      const portfolio = buildPortfolio([
+        buy("TAEE11", 100, 30, "2024-01-02"),
+        sell("TAEE11", 40, 35, "2024-02-01"),
+      ], []);
+
+      expect(portfolio.positions[0]).toMatchObject({
+        quantity: 60,
+        totalCost: 1800,
+        avgPrice: 30,
+        firstPurchaseDate: new Date("2024-01-02T00:00:00.000Z"),
+      });
+      expect(portfolio.totalInvested).toBe(1800);
+    });
+
+    it("leaves no capital invested once the position reaches zero", () => {
+      const portfolio = buildPortfolio([
+        buy("TAEE11", 100, 30, "2024-01-02"),
+        sell("TAEE11", 40, 35, "2024-02-01"),
+        sell("TAEE11", 60, 28, "2024-03-01"),
+      ], []);
+
+      expect(portfolio.positions).toEqual([]);
+      expect(portfolio.totalInvested).toBe(0);
+      expect(portfolio.realizedResult).toBe(80);
+    });
+
+    it("starts a fresh average price and first purchase date on re-entry", () => {
+      const portfolio = buildPortfolio([
+        buy("TAEE11", 100, 30, "2024-01-02"),
+        sell("TAEE11", 100, 35, "2024-02-01"),
+        buy("TAEE11", 50, 40, "2024-04-01"),
+        buy("TAEE11", 50, 42, "2024-05-02"),
+      ], []);
+
+      expect(portfolio.positions[0]).toMatchObject({
+        quantity: 100,
+        totalCost: 4100,
+        avgPrice: 41,
+        firstPurchaseDate: new Date("2024-04-01T00:00:00.000Z"),
+      });
+      expect(portfolio.positions[0].lots.map(lot => lot.date)).toEqual([
+        new Date("2024-04-01T00:00:00.000Z"),
+        new Date("2024-05-02T00:00:00.000Z"),
+      ]);
+    });
+
+    it("measures holding days from the re-entry buy, not the closed position", () => {
+      const portfolio = buildPortfolio([
+        buy("TAEE11", 100, 30, "2024-01-02"),
+        sell("TAEE11", 100, 35, "2024-02-01"),
+        buy("TAEE11", 100, 40, "2024-04-01"),
+        sell("TAEE11", 100, 44, "2024-04-11"),
+      ], []);
+
+      const reentry = portfolio.closedPositions.find(p => p.buyDate.getTime() === new Date("2024-04-01T00:00:00.000Z").getTime());
+      expect(reentry).toMatchObject({ days: 10, buyPrice: 40, returnReais: 400 });
+    });
+
+    it("resets only the ticker that was closed", () => {
+      const portfolio = buildPortfolio([
+        buy("TAEE11", 100, 30, "2024-01-02"),
+        buy("VALE3", 10, 60, "2024-01-02"),
+        sell("TAEE11", 100, 35, "2024-02-01"),
+        buy("TAEE11", 10, 40, "2024-04-01"),
+      ], []);
+
+      const firstPurchase = Object.fromEntries(portfolio.positions.map(p => [p.stockCode, p.firstPurchaseDate]));
+      expect(firstPurchase).toEqual({
+        TAEE11: new Date("2024-04-01T00:00:00.000Z"),
+        VALE3: new Date("2024-01-02T00:00:00.000Z"),
+      });
+    });
+  });
+});
+
+describe("positionOn", () => {
+  const transactions = [
+    buy("BBDC4", 100, 15, "2024-01-02"),
+    sell("BBDC4", 100, 16, "2024-03-01"),
+    buy("BBDC4", 300, 14, "2024-05-02"),
+  ];
+
+  it("counts only trades dated up to the day", () => {
+    expect(positionOn(transactions, "BBDC4", "2024-02-15")?.quantity).toBe(100);
+    expect(positionOn(transactions, "BBDC4", "2024-04-01")).toBeUndefined();
+    expect(positionOn(transactions, "BBDC4", "2024-05-02")?.quantity).toBe(300);
+  });
+
+  it("applies corporate events dated up to the day", () => {
+    const corporateEvents = [
+      { ticker: "BBDC4", event_type: "split" as const, event_date: "2024-02-01T00:00:00.000Z", ratio_from: 1, ratio_to: 2 },
+    ];
+
+    expect(positionOn(transactions, "BBDC4", "2024-01-31", { corporateEvents })?.quantity).toBe(100);
+    expect(positionOn(transactions, "BBDC4", "2024-02-01", { corporateEvents })?.quantity).toBe(200);
+  });
+});
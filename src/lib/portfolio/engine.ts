@@ -0,0 +1,518 @@
+import { divide, multiply, percentage, subtract, sum, sumBy } from "@/lib/decimal";
+import { DEFAULT_QUANTITY_PRECISION, resolveAssetClass } from "./assetClass";
+import { applyAverageCost, DEFAULT_COST_BASIS_METHOD, planLotMatches } from "./costBasis";
+import { applyCorporateEvent, buildTickerResolver, isTickerMove, transferLots } from "./corporateEvents";
+import { DayTradeMatch, dayKey, splitDayTrades } from "./dayTrade";
+import { netTransactionValue } from "./fees";
+import { baseTicker } from "./ticker";
+import type {
+  ClosedPosition,
+  CorporateEventInput,
+  DividendInput,
+  Lot,
+  Portfolio,
+  PortfolioOptions,
+  PortfolioSnapshot,
+  PortfolioWarning,
+  Position,
+  PositionSide,
+  Sale,
+  TransactionInput,
+} from "./types";
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+type LotBook = { [stockCode: string]: Lot[] };
+
+type TimelineEvent =
+  | { kind: "corporate"; date: Date; order: number; corporateEvent: CorporateEventInput }
+  | { kind: "buy"; date: Date; order: number; transaction: TransactionInput }
+  | { kind: "dividend"; date: Date; order: number; dividend: DividendInput }
+  | { kind: "sell"; date: Date; order: number; transaction: TransactionInput };
+
+// Events sharing the same timestamp run as corporate event -> buy -> dividend
+// -> sell: trades on an ex-date are already quoted after the split, and a
+// same-day purchase can be sold and still receive that day's dividend.
+const KIND_ORDER = { corporate: 0, buy: 1, dividend: 2, sell: 3 };
+
+function buildTimeline(
+  transactions: TransactionInput[],
+  dividends: DividendInput[],
+  corporateEvents: CorporateEventInput[],
+): TimelineEvent[] {
+  const events: TimelineEvent[] = [];
+
+  corporateEvents.forEach((corporateEvent, order) => {
+    events.push({ kind: "corporate", date: new Date(corporateEvent.event_date), order, corporateEvent });
+  });
+
+  transactions.forEach((transaction, order) => {
+    events.push({
+      kind: transaction.transaction_type,
+      date: new Date(transaction.transaction_date),
+      order,
+      transaction,
+    } as TimelineEvent);
+  });
+
+  dividends.forEach((dividend, order) => {
+    events.push({ kind: "dividend", date: new Date(dividend.dividend_date), order, dividend });
+  });
+
+  return events.sort((a, b) => {
+    const byDate = a.date.getTime() - b.date.getTime();
+    if (byDate !== 0) return byDate;
+
+    const byKind = KIND_ORDER[a.kind] - KIND_ORDER[b.kind];
+    if (byKind !== 0) return byKind;
+
+    if ((a.kind === "buy" || a.kind === "sell") && (b.kind === "buy" || b.kind === "sell")) {
+      const byCreation = (a.transaction.created_at || "").localeCompare(b.transaction.created_at || "");
+      if (byCreation !== 0) return byCreation;
+    }
+
+    return a.order - b.order;
+  });
+}
+
+export function calculateHoldingDays(buyDate: Date, sellDate: Date) {
+  return Math.ceil((sellDate.getTime() - buyDate.getTime()) / DAY_MS);
+}
+
+export function calculateMonthlyReturn(returnPercent: number, days: number) {
+  const months = days / 30;
+  return months > 0 ? returnPercent / months : 0;
+}
+
+function createClosedPosition(
+  lot: Lot,
+  transaction: TransactionInput,
+  sellDate: Date,
+  quantity: number,
+  dividends: number,
+): ClosedPosition {
+  const buyValue = multiply(quantity, lot.unitCost);
+  // Sale proceeds are counted net of the sale's fees
+  const sellPrice = divide(netTransactionValue(transaction), transaction.quantity);
+  const sellValue = divide(multiply(netTransactionValue(transaction), quantity), transaction.quantity);
+  const days = calculateHoldingDays(lot.date, sellDate);
+  const returnReais = subtract(sum([sellValue, dividends]), buyValue);
+  const returnPercent = percentage(returnReais, buyValue);
+
+  return {
+    stockCode: lot.stockCode,
+    tradeType: "swing",
+    side: "long",
+    originalStockCode: lot.originalStockCode,
+    buyTransactionId: lot.transactionId,
+    sellTransactionId: transaction.id,
+    buyDate: lot.date,
+    sellDate,
+    quantity,
+    buyPrice: lot.unitCost,
+    sellPrice,
+    buyValue,
+    sellValue,
+    dividends,
+    days,
+    returnReais,
+    returnPercent,
+    monthlyReturn: calculateMonthlyReturn(returnPercent, days),
+  };
+}
+
+/**
+ * Mirrors a closed long position for a short that a buy covered: the shares
+ * were sold first, at the short lot's net proceeds, and bought back later.
+ * The return is measured against the proceeds.
+ */
+function createCoveredShortPosition(
+  lot: Lot,
+  transaction: TransactionInput,
+  coverDate: Date,
+  quantity: number,
+): ClosedPosition {
+  // Purchase fees add to what covering the short costs
+  const buyPrice = divide(netTransactionValue(transaction), transaction.quantity);
+  const buyValue = divide(multiply(netTransactionValue(transaction), quantity), transaction.quantity);
+  const sellValue = multiply(quantity, lot.unitCost);
+  const days = calculateHoldingDays(lot.date, coverDate);
+  const returnReais = subtract(sellValue, buyValue);
+  const returnPercent = percentage(returnReais, sellValue);
+
+  return {
+    stockCode: lot.stockCode,
+    tradeType: "swing",
+    side: "short",
+    originalStockCode: lot.originalStockCode,
+    buyTransactionId: transaction.id,
+    sellTransactionId: lot.transactionId,
+    buyDate: coverDate,
+    sellDate: lot.date,
+    quantity,
+    buyPrice,
+    sellPrice: lot.unitCost,
+    buyValue,
+    sellValue,
+    dividends: 0,
+    days,
+    returnReais,
+    returnPercent,
+    monthlyReturn: calculateMonthlyReturn(returnPercent, days),
+  };
+}
+
+// Covered shorts are closed by the buy, long positions by the sell
+const closedAt = (closedPosition: ClosedPosition) =>
+  (closedPosition.side === "short" ? closedPosition.buyDate : closedPosition.sellDate).getTime();
+
+function createDayTradePosition(match: DayTradeMatch): ClosedPosition {
+  const buyValue = multiply(match.quantity, match.buyPrice);
+  const sellValue = multiply(match.quantity, match.sellPrice);
+  const returnReais = subtract(sellValue, buyValue);
+
+  return {
+    stockCode: match.stockCode,
+    tradeType: "day",
+    side: "long",
+    buyTransactionId: match.buyTransactionIds[0],
+    sellTransactionId: match.sellTransactionId,
+    buyDate: match.date,
+    sellDate: match.date,
+    quantity: match.quantity,
+    buyPrice: match.buyPrice,
+    sellPrice: match.sellPrice,
+    buyValue,
+    sellValue,
+    dividends: 0,
+    days: 0,
+    returnReais,
+    returnPercent: percentage(returnReais, buyValue),
+    monthlyReturn: 0,
+  };
+}
+
+/**
+ * Replays transactions, dividends and corporate events in chronological order
+ * and derives the open lots, positions and closed (realized) positions from
+ * them. Day trades are settled first and never touch the open lots; the
+ * remaining sells are matched against open lots according to the cost basis
+ * method, and dividends are split across the lots held on the payment date in
+ * proportion to their quantity, using the net amount received.
+ *
+ * Selling more than is held opens a short lot for the excess, and later buys
+ * cover open shorts before adding to a long position. A covered short is
+ * realized, and taxed, on the date of the buy that covers it.
+ *
+ * onDayEnd, when given, receives the open positions after the last event of
+ * each day, so the portfolio can be followed over time in a single replay.
+ */
+export function buildPortfolio(
+  allTransactions: TransactionInput[],
+  allDividends: DividendInput[],
+  options: PortfolioOptions = {},
+  onDayEnd?: (snapshot: PortfolioSnapshot) => void,
+): Portfolio {
+  // Fractional-market trades (PETR4F) build the same position as standard lots (PETR4)
+  const transactions = allTransactions.map(t => ({ ...t, stock_code: baseTicker(t.stock_code) }));
+  const dividends = allDividends.map(d => ({ ...d, stock_code: baseTicker(d.stock_code) }));
+  const costBasisMethod = options.costBasisMethod || DEFAULT_COST_BASIS_METHOD;
+  const assetClassOf = (stockCode: string) => resolveAssetClass(stockCode, options.assetClasses);
+  const lotsByStock: LotBook = {};
+  const shortLotsByStock: LotBook = {};
+  // Gross value of the shares each short sale left uncovered, by transaction id
+  const shortGrossValues: { [transactionId: string]: number } = {};
+  const firstPurchaseDates: { [stockCode: string]: Date } = {};
+  const closedPositions: ClosedPosition[] = [];
+  const sales: Sale[] = [];
+  const warnings: PortfolioWarning[] = [];
+  const { swingTransactions, dayTrades } = splitDayTrades(transactions);
+  const tickerAt = buildTickerResolver(options.corporateEvents || []);
+
+  dayTrades.forEach(match => {
+    const closedPosition = createDayTradePosition(match);
+
+    closedPositions.push(closedPosition);
+    sales.push({
+      transactionId: match.sellTransactionId,
+      stockCode: match.stockCode,
+      assetClass: assetClassOf(match.stockCode),
+      tradeType: "day",
+      date: match.date,
+      quantity: match.quantity,
+      grossValue: closedPosition.sellValue,
+      cost: closedPosition.buyValue,
+      result: closedPosition.returnReais,
+    });
+  });
+
+  const applyEvent = (event: TimelineEvent) => {
+    if (event.kind === "corporate") {
+      const corporateEvent = event.corporateEvent;
+      const stock = corporateEvent.ticker;
+
+      // Shares owed on a short are adjusted the same way as shares held
+      [lotsByStock, shortLotsByStock].forEach(book => {
+        if (isTickerMove(corporateEvent)) {
+          const newStock = corporateEvent.new_ticker!;
+          const moved = transferLots(book[stock] || [], corporateEvent);
+          if (moved.length === 0) return;
+
+          if (!book[newStock] || book[newStock].length === 0) {
+            book[newStock] = [];
+            firstPurchaseDates[newStock] = firstPurchaseDates[stock];
+          }
+          book[newStock].push(...moved);
+          book[stock] = [];
+          if (costBasisMethod === "average") applyAverageCost(book[newStock]);
+          return;
+        }
+
+        book[stock] = applyCorporateEvent(book[stock] || [], corporateEvent, event.date);
+        if (costBasisMethod === "average") applyAverageCost(book[stock]);
+      });
+      return;
+    }
+
+    if (event.kind === "buy") {
+      const t = event.transaction;
+      const stock = tickerAt(t.stock_code, event.date);
+      const shortLots = shortLotsByStock[stock] || [];
+      let remaining = t.quantity;
+
+      // A buy covers open shorts first; only what is left adds to a long position
+      if (shortLots.length > 0) {
+        const cover: Sale = {
+          transactionId: t.id,
+          stockCode: stock,
+          assetClass: assetClassOf(stock),
+          tradeType: "swing",
+          date: event.date,
+          quantity: 0,
+          grossValue: 0,
+          cost: 0,
+          result: 0,
+        };
+
+        planLotMatches(shortLots, t.quantity, costBasisMethod).forEach(({ lot, quantity }) => {
+          const closedPosition = createCoveredShortPosition(lot, t, event.date, quantity);
+          const shortGrossValue = lot.transactionId ? shortGrossValues[lot.transactionId] : undefined;
+
+          closedPositions.push(closedPosition);
+          cover.quantity = sum([cover.quantity, quantity]);
+          cover.grossValue = sum([
+            cover.grossValue,
+            shortGrossValue === undefined
+              ? closedPosition.sellValue
+              : divide(multiply(shortGrossValue, quantity), lot.originalQuantity),
+          ]);
+          cover.cost = sum([cover.cost, closedPosition.buyValue]);
+          cover.result = sum([cover.result, closedPosition.returnReais]);
+
+          lot.quantity = subtract(lot.quantity, quantity);
+          lot.cost = multiply(lot.quantity, lot.unitCost);
+          remaining = subtract(remaining, quantity);
+        });
+        shortLotsByStock[stock] = shortLots.filter(lot => lot.quantity > 0);
+        sales.push(cover);
+      }
+
+      if (remaining === 0) return;
+      if (!lotsByStock[stock]) lotsByStock[stock] = [];
+
+      // A buy into a flat position starts a new holding period with a fresh
+      // average, instead of inheriting the dates of a previously closed one
+      if (lotsByStock[stock].length === 0) {
+        firstPurchaseDates[stock] = event.date;
+      }
+
+      lotsByStock[stock].push({
+        transactionId: t.id,
+        stockCode: stock,
+        date: event.date,
+        originalQuantity: remaining,
+        quantity: remaining,
+        // Purchase fees are part of the acquisition cost
+        unitCost: divide(netTransactionValue(t), t.quantity),
+        cost: divide(multiply(netTransactionValue(t), remaining), t.quantity),
+        dividends: 0,
+      });
+      if (costBasisMethod === "average") applyAverageCost(lotsByStock[stock]);
+      return;
+    }
+
+    if (event.kind === "dividend") {
+      const d = event.dividend;
+      const stock = tickerAt(d.stock_code, event.date);
+      const lots = lotsByStock[stock] || [];
+      const heldQuantity = sumBy(lots, lot => lot.quantity);
+
+      if (heldQuantity === 0) {
+        warnings.push({ type: "unattributed_dividend", stockCode: stock, date: event.date, amount: d.amount });
+        return;
+      }
+
+      lots.forEach(lot => {
+        lot.dividends = sum([lot.dividends, divide(multiply(d.amount, lot.quantity), heldQuantity)]);
+      });
+      return;
+    }
+
+    const t = event.transaction;
+    const stock = tickerAt(t.stock_code, event.date);
+    const lots = lotsByStock[stock] || [];
+    let remaining = t.quantity;
+    const sale: Sale = {
+      transactionId: t.id,
+      stockCode: stock,
+      assetClass: assetClassOf(stock),
+      tradeType: "swing",
+      date: event.date,
+      quantity: t.quantity,
+      grossValue: t.total_value,
+      cost: 0,
+      result: 0,
+    };
+
+    planLotMatches(lots, t.quantity, costBasisMethod, t.lot_selections).forEach(({ lot, quantity }) => {
+      const matchedDividends = divide(multiply(lot.dividends, quantity), lot.quantity);
+      const closedPosition = createClosedPosition(lot, t, event.date, quantity, matchedDividends);
+
+      closedPositions.push(closedPosition);
+      sale.cost = sum([sale.cost, closedPosition.buyValue]);
+      sale.result = sum([sale.result, closedPosition.sellValue, -closedPosition.buyValue]);
+
+      // Sold shares leave at the lot's unit cost, which under the average
+      // method is the position's current average price
+      lot.quantity = subtract(lot.quantity, quantity);
+      lot.cost = multiply(lot.quantity, lot.unitCost);
+      lot.dividends = subtract(lot.dividends, matchedDividends);
+      remaining = subtract(remaining, quantity);
+    });
+    lotsByStock[stock] = lots.filter(lot => lot.quantity > 0);
+
+    // Shares sold from the position are realized now; the rest open a short
+    sale.quantity = subtract(t.quantity, remaining);
+    sale.grossValue = divide(multiply(t.total_value, sale.quantity), t.quantity);
+    if (sale.quantity > 0) sales.push(sale);
+
+    if (remaining > 0) {
+      warnings.push({ type: "oversell", stockCode: stock, transactionId: t.id, date: event.date, quantity: remaining });
+
+      if (!shortLotsByStock[stock] || shortLotsByStock[stock].length === 0) {
+        shortLotsByStock[stock] = [];
+        firstPurchaseDates[stock] = event.date;
+      }
+      // The short's basis is what the sale brought in, net of its fees
+      shortLotsByStock[stock].push({
+        transactionId: t.id,
+        stockCode: stock,
+        date: event.date,
+        originalQuantity: remaining,
+        quantity: remaining,
+        unitCost: divide(netTransactionValue(t), t.quantity),
+        cost: divide(multiply(netTransactionValue(t), remaining), t.quantity),
+        dividends: 0,
+      });
+      if (t.id) shortGrossValues[t.id] = divide(multiply(t.total_value, remaining), t.quantity);
+      if (costBasisMethod === "average") applyAverageCost(shortLotsByStock[stock]);
+    }
+  };
+
+  const buildPosition = (stock: string, side: PositionSide): Position => {
+    const lots = side === "long" ? lotsByStock[stock] : shortLotsByStock[stock];
+    // Shorts carry a negative quantity and cost (the proceeds), so market
+    // value minus cost is still the open result on either side
+    const sign = side === "long" ? 1 : -1;
+    const quantity = multiply(sign, sumBy(lots, lot => lot.quantity));
+    const totalCost = multiply(sign, sumBy(lots, lot => lot.cost));
+
+    return {
+      stockCode: stock,
+      assetClass: assetClassOf(stock),
+      side,
+      quantity,
+      totalCost,
+      avgPrice: divide(totalCost, quantity),
+      firstPurchaseDate: firstPurchaseDates[stock] || null,
+      dividends: sumBy(lots, lot => lot.dividends),
+      lots,
+    };
+  };
+
+  const openPositions = () => [
+    ...Object.keys(lotsByStock)
+      .filter(stock => lotsByStock[stock].length > 0)
+      .map(stock => buildPosition(stock, "long")),
+    ...Object.keys(shortLotsByStock)
+      .filter(stock => shortLotsByStock[stock].length > 0)
+      .map(stock => buildPosition(stock, "short")),
+  ].sort((a, b) => a.stockCode.localeCompare(b.stockCode));
+
+  const timeline = buildTimeline(swingTransactions, dividends, options.corporateEvents || []);
+  let receivedDividends = 0;
+  timeline.forEach((event, index) => {
+    applyEvent(event);
+    if (!onDayEnd) return;
+
+    if (event.kind === "dividend") receivedDividends = sum([receivedDividends, event.dividend.amount]);
+    const day = dayKey(event.date);
+    if (index + 1 < timeline.length && dayKey(timeline[index + 1].date) === day) return;
+
+    // Later events keep changing the lots, so the snapshot holds copies
+    const positions = openPositions().map(position => ({ ...position, lots: position.lots.map(lot => ({ ...lot })) }));
+    onDayEnd({ day, positions, totalInvested: sumBy(positions, p => p.totalCost), totalDividends: receivedDividends });
+  });
+
+  // Realized results follow the asset to its current ticker
+  closedPositions.forEach(closedPosition => {
+    const latest = tickerAt(closedPosition.stockCode);
+    if (latest !== closedPosition.stockCode) {
+      closedPosition.originalStockCode = closedPosition.originalStockCode || closedPosition.stockCode;
+      closedPosition.stockCode = latest;
+    }
+  });
+
+  const positions: Position[] = openPositions();
+
+  return {
+    costBasisMethod,
+    assetClasses: options.assetClasses || {},
+    quantityPrecision: options.quantityPrecision || DEFAULT_QUANTITY_PRECISION,
+    positions,
+    closedPositions: closedPositions.sort((a, b) => closedAt(b) - closedAt(a)),
+    sales,
+    dayTradeTransactionIds: [
+      ...new Set(dayTrades.flatMap(match => [...match.buyTransactionIds, match.sellTransactionId]).filter(Boolean)),
+    ] as string[],
+    // Net of the proceeds held from open shorts
+    totalInvested: sumBy(positions, p => p.totalCost),
+    totalDividends: sumBy(dividends, d => d.amount),
+    realizedResult: sumBy(closedPositions, p => p.returnReais),
+    warnings,
+  };
+}
+
+/**
+ * The long position in the ticker as it stood at the end of the given day,
+ * replaying only the transactions and corporate events dated up to it.
+ */
+export function positionOn(
+  transactions: TransactionInput[],
+  stockCode: string,
+  date: string | Date,
+  options: PortfolioOptions = {},
+): Position | undefined {
+  const day = dayKey(date);
+  const portfolio = buildPortfolio(
+    transactions.filter(t => dayKey(t.transaction_date) <= day),
+    [],
+    { ...options, corporateEvents: (options.corporateEvents || []).filter(e => dayKey(e.event_date) <= day) },
+  );
+  return portfolio.positions.find(p => p.stockCode === baseTicker(stockCode) && p.side === "long");
+}
+
+/** Decimal places a quantity of the ticker may have, given its asset class. */
+export function quantityPrecisionFor(portfolio: Pick<Portfolio, "assetClasses" | "quantityPrecision">, ticker: string) {
+  return portfolio.quantityPrecision[resolveAssetClass(baseTicker(ticker), portfolio.assetClasses)];
+}
@@ -0,0 +1,87 @@
+import { describe, expect, it } from "vitest";
+import { dayKey } from "./dayTrade";
+import { buildPortfolio } from "./engine";
+import { buildPortfolioEvolution } from "./evolution";
+import type { CorporateEventInput, DividendInput, PortfolioOptions, PortfolioSnapshot, TransactionInput } from "./types";
+
+let sequence = 0;
+
+const trade = (
+  transaction_type: TransactionInput["transaction_type"],
+  stock_code: string,
+  quantity: number,
+  price_per_share: number,
+  date: string,
+): TransactionInput => {
+  sequence += 1;
+  return {
+    id: `t${sequence}`,
+    stock_code,
+    transaction_type,
+    quantity,
+    price_per_share,
+    total_value: quantity * price_per_share,
+    transaction_date: `${date}T00:00:00.000Z`,
+    created_at: `${date}T12:00:00.${String(sequence).padStart(3, "0")}Z`,
+  };
+};
+
+const dividend = (stock_code: string, amount: number, date: string): DividendInput => ({ stock_code, amount, dividend_date: date });
+
+const transactions = [
+  // A day trade alone on the first day leaves nothing open
+  trade("buy", "VALE3", 10, 60, "2024-01-02"),
+  trade("sell", "VALE3", 10, 61, "2024-01-02"),
+  trade("buy", "PETR4", 100, 30, "2024-01-03"),
+  trade("buy", "ITSA4", 200, 10, "2024-01-03"),
+  trade("sell", "PETR4", 40, 32, "2024-01-10"),
+  trade("buy", "PETR4", 20, 35, "2024-01-18"),
+  trade("sell", "ITSA4", 200, 11, "2024-01-22"),
+  trade("buy", "BBAS3", 50, 27, "2024-01-29"),
+];
+const dividends = [dividend("PETR4", 45.5, "2024-01-15"), dividend("ITSA4", 12, "2024-01-22")];
+const corporateEvents: CorporateEventInput[] = [
+  { ticker: "BBAS3", event_type: "split", event_date: "2024-02-01", ratio_from: 1, ratio_to: 2 },
+];
+const options: PortfolioOptions = { costBasisMethod: "average", corporateEvents };
+
+const closeOn = (ticker: string, day: string) => ticker === "PETR4" && day >= "2024-01-05" ? 33 : null;
+
+describe("buildPortfolioEvolution", () => {
+  it("matches rebuilding the portfolio from scratch on each day with activity", () => {
+    const rebuiltOn = (day: string) => buildPortfolio(
+      transactions.filter(t => dayKey(t.transaction_date) <= day),
+      dividends.filter(d => dayKey(d.dividend_date) <= day),
+      { ...options, corporateEvents: corporateEvents.filter(e => dayKey(e.event_date) <= day) },
+    );
+
+    const points = buildPortfolioEvolution(transactions, dividends, options, closeOn, null, new Date("2024-02-09T00:00:00.000Z"));
+
+    expect(points.map(point => point.date)).toContain("2024-01-02");
+    points.forEach(point => {
+      const portfolio = rebuiltOn(point.date);
+      const marketValue = portfolio.positions.reduce(
+        (total, position) => total + position.quantity * (closeOn(position.stockCode, point.date) ?? position.avgPrice),
+        0,
+      );
+
+      expect(point.invested).toBeCloseTo(portfolio.totalInvested, 2);
+      expect(point.marketValue).toBeCloseTo(marketValue, 2);
+      expect(point.marketValueWithDividends).toBeCloseTo(marketValue + portfolio.totalDividends, 2);
+    });
+  });
+
+  it("snapshots each day once, after its last event", () => {
+    const snapshots: PortfolioSnapshot[] = [];
+    buildPortfolio(transactions, dividends, options, snapshot => snapshots.push(snapshot));
+
+    expect(snapshots.map(snapshot => snapshot.day)).toEqual([
+      "2024-01-03", "2024-01-10", "2024-01-15", "2024-01-18", "2024-01-22", "2024-01-29", "2024-02-01",
+    ]);
+    expect(snapshots[snapshots.length - 1].positions.map(({ stockCode, quantity }) => [stockCode, quantity])).toEqual([
+      ["BBAS3", 100],
+      ["PETR4", 80],
+    ]);
+    expect(snapshots[snapshots.length - 1].totalDividends).toBe(57.5);
+  });
+});
@@ -0,0 +1,113 @@
+import { startOfYear, subMonths, subYears } from "date-fns";
+import { multiply, roundMoney, sum, sumBy } from "@/lib/decimal";
+import { dayKey } from "./dayTrade";
+import { buildPortfolio } from "./engine";
+import type { DividendInput, PortfolioOptions, PortfolioSnapshot, TransactionInput } from "./types";
+
+export type EvolutionRange = "1M" | "6M" | "YTD" | "1A" | "5A" | "ALL";
+
+export const EVOLUTION_RANGE_LABELS: { [key in EvolutionRange]: string } = {
+  "1M": "1M",
+  "6M": "6M",
+  YTD: "YTD",
+  "1A": "1A",
+  "5A": "5A",
+  ALL: "Tudo",
+};
+
+export const EVOLUTION_RANGES = Object.keys(EVOLUTION_RANGE_LABELS) as EvolutionRange[];
+
+export interface EvolutionPoint {
+  // Day as yyyy-MM-dd
+  date: string;
+  invested: number;
+  marketValue: number;
+  // Market value plus every net dividend received so far
+  marketValueWithDividends: number;
+}
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+// Spans longer than this are drawn with one point per week
+const DAILY_POINTS_MAX_DAYS = 400;
+
+/** First day shown for a range, or null to start at the first operation. */
+export function evolutionRangeStart(range: EvolutionRange, today = new Date()) {
+  switch (range) {
+    case "1M":
+      return subMonths(today, 1);
+    case "6M":
+      return subMonths(today, 6);
+    case "YTD":
+      return startOfYear(today);
+    case "1A":
+      return subYears(today, 1);
+    case "5A":
+      return subYears(today, 5);
+    default:
+      return null;
+  }
+}
+
+/**
+ * Reconstructs the portfolio day by day between the given days: the capital
+ * invested in the open positions, their market value at each day's close and
+ * that value plus the dividends received up to then. The portfolio only
+ * changes on days with a transaction, dividend or corporate event, so one
+ * replay takes a snapshot at the end of each such day; days without a close
+ * for a ticker (before its history starts, or missing data) value it at its
+ * average price.
+ */
+export function buildPortfolioEvolution(
+  transactions: TransactionInput[],
+  dividends: DividendInput[],
+  options: PortfolioOptions,
+  closeOn: (ticker: string, day: string) => number | null,
+  from: Date | null,
+  to = new Date(),
+): EvolutionPoint[] {
+  const corporateEvents = options.corporateEvents || [];
+  const eventDays = [...new Set([
+    ...transactions.map(t => dayKey(t.transaction_date)),
+    ...dividends.map(d => dayKey(d.dividend_date)),
+    ...corporateEvents.map(e => dayKey(e.event_date)),
+  ])].sort();
+  if (eventDays.length === 0) return [];
+
+  // A first day with only day trades leaves nothing open
+  const snapshots: PortfolioSnapshot[] = [{ day: eventDays[0], positions: [], totalInvested: 0, totalDividends: 0 }];
+  buildPortfolio(transactions, dividends, options, snapshot => snapshots.push(snapshot));
+
+  const firstDay = from && dayKey(from) > eventDays[0] ? dayKey(from) : eventDays[0];
+  const lastDay = dayKey(to);
+  const start = Date.parse(firstDay);
+  const end = Date.parse(lastDay);
+  const weekly = (end - start) / DAY_MS > DAILY_POINTS_MAX_DAYS;
+
+  const days: string[] = [];
+  for (let time = start; time <= end; time += (weekly ? 7 : 1) * DAY_MS) {
+    const weekday = new Date(time).getUTCDay();
+    if (!weekly && (weekday === 0 || weekday === 6)) continue;
+    days.push(new Date(time).toISOString().slice(0, 10));
+  }
+  if (days[days.length - 1] !== lastDay) days.push(lastDay);
+
+  const points: EvolutionPoint[] = [];
+  let index = -1;
+  days.forEach(day => {
+    while (index + 1 < snapshots.length && snapshots[index + 1].day <= day) index++;
+    if (index < 0) return;
+
+    const snapshot = snapshots[index];
+    const marketValue = sumBy(snapshot.positions, position =>
+      multiply(position.quantity, closeOn(position.stockCode, day) ?? position.avgPrice));
+
+    points.push({
+      date: day,
+      invested: roundMoney(snapshot.totalInvested),
+      marketValue: roundMoney(marketValue),
+      marketValueWithDividends: roundMoney(sum([marketValue, snapshot.totalDividends])),
+    });
+  });
+  return points;
+}
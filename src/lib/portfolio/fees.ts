@@ -0,0 +1,67 @@
+import { subtract, sum, sumBy } from "@/lib/decimal";
+import { dayKey } from "./dayTrade";
+import type { TransactionInput } from "./types";
+
+export type FeeField = "brokerage_fee" | "exchange_fee" | "settlement_fee" | "other_fees";
+
+export type TransactionFees = { [key in FeeField]: number };
+
+export const FEE_LABELS: { [key in FeeField]: string } = {
+  brokerage_fee: "Corretagem",
+  exchange_fee: "Emolumentos",
+  settlement_fee: "Liquidação",
+  other_fees: "Outras taxas",
+};
+
+export const FEE_FIELDS = Object.keys(FEE_LABELS) as FeeField[];
+
+export const NO_FEES: TransactionFees = {
+  brokerage_fee: 0,
+  exchange_fee: 0,
+  settlement_fee: 0,
+  other_fees: 0,
+};
+
+export interface FeeSummary extends TransactionFees {
+  // "yyyy-MM" for monthly summaries, "yyyy" for yearly ones
+  period: string;
+  total: number;
+  transactions: number;
+}
+
+export function transactionFees(transaction: Partial<TransactionFees>) {
+  return sumBy(FEE_FIELDS, field => transaction[field] || 0);
+}
+
+/**
+ * Value of a trade once its costs are counted: fees are added to what a buy
+ * costs and deducted from what a sell brings in. total_value itself stays the
+ * gross trade value.
+ */
+export function netTransactionValue(transaction: TransactionInput) {
+  const fees = transactionFees(transaction);
+  return transaction.transaction_type === "buy"
+    ? sum([transaction.total_value, fees])
+    : subtract(transaction.total_value, fees);
+}
+
+/** Adds up fees per calendar month or year, most recent period first. */
+export function summarizeFees(transactions: TransactionInput[], period: "month" | "year"): FeeSummary[] {
+  const summaries = new Map<string, FeeSummary>();
+
+  transactions.forEach(t => {
+    const fees = transactionFees(t);
+    if (fees === 0) return;
+
+    const key = dayKey(t.transaction_date).slice(0, period === "month" ? 7 : 4);
+    const summary = summaries.get(key) || { period: key, ...NO_FEES, total: 0, transactions: 0 };
+    FEE_FIELDS.forEach(field => {
+      summary[field] = sum([summary[field], t[field] || 0]);
+    });
+    summary.total = sum([summary.total, fees]);
+    summary.transactions += 1;
+    summaries.set(key, summary);
+  });
+
+  return [...summaries.values()].sort((a, b) => b.period.localeCompare(a.period));
+}
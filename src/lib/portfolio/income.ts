@@ -0,0 +1,31 @@
+import { divide, multiply, roundMoney, subtract } from "@/lib/decimal";
+
+export type IncomeType = "dividend" | "jcp" | "fii_income";
+
+export const INCOME_TYPE_LABELS: { [key in IncomeType]: string } = {
+  dividend: "Dividendo",
+  jcp: "JCP",
+  fii_income: "Rendimento FII",
+};
+
+export const INCOME_TYPES = Object.keys(INCOME_TYPE_LABELS) as IncomeType[];
+
+// JCP is paid net of 15% IRRF; dividends and FII distributions are exempt for individuals
+export const WITHHOLDING_RATES: { [key in IncomeType]: number } = {
+  dividend: 0,
+  jcp: 0.15,
+  fii_income: 0,
+};
+
+export function isIncomeType(value: unknown): value is IncomeType {
+  return typeof value === "string" && value in INCOME_TYPE_LABELS;
+}
+
+export function calculateWithholding(incomeType: IncomeType, grossAmount: number) {
+  return roundMoney(multiply(grossAmount, WITHHOLDING_RATES[incomeType]));
+}
+
+/** Recovers the gross amount of a distribution reported net of withholding. */
+export function grossUpNetAmount(incomeType: IncomeType, netAmount: number) {
+  return roundMoney(divide(netAmount, subtract(1, WITHHOLDING_RATES[incomeType])));
+}
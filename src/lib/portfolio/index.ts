@@ -0,0 +1,11 @@
+export * from "./types";
+export * from "./assetClass";
+export * from "./corporateEvents";
+export * from "./costBasis";
+export * from "./dayTrade";
+export * from "./fees";
+export * from "./income";
+export * from "./ticker";
+export * from "./validation";
+export * from "./engine";
+export * from "./evolution";
@@ -0,0 +1,18 @@
+// Odd lots (1 to 99 shares) trade on B3's fractional market under the
+// standard ticker plus an "F", e.g. PETR4F for PETR4
+const FRACTIONAL_TICKER = /^([A-Z]{4}\d{1,2})F$/;
+
+export function isFractionalTicker(ticker: string) {
+  return FRACTIONAL_TICKER.test(ticker.toUpperCase());
+}
+
+/**
+ * The asset a ticker refers to: fractional-market tickers are the same asset
+ * as their standard-lot counterpart, so positions, dividends and quotes are
+ * kept under the base ticker.
+ */
+export function baseTicker(ticker: string) {
+  const code = ticker.toUpperCase();
+  const match = code.match(FRACTIONAL_TICKER);
+  return match ? match[1] : code;
+}
@@ -0,0 +1,141 @@
+import type { AssetClass, AssetClassMap, QuantityPrecision } from "./assetClass";
+import type { CostBasisMethod, LotSelection } from "./costBasis";
+import type { TransactionFees } from "./fees";
+import type { IncomeType } from "./income";
+
+export type TransactionType = "buy" | "sell";
+
+export type TradeType = "swing" | "day";
+
+// A long position holds shares bought; a short one owes shares sold without holding them
+export type PositionSide = "long" | "short";
+
+export interface TransactionInput extends Partial<TransactionFees> {
+  id?: string;
+  stock_code: string;
+  transaction_type: TransactionType;
+  quantity: number;
+  price_per_share: number;
+  total_value: number;
+  transaction_date: string;
+  created_at?: string;
+  lot_selections?: LotSelection[] | null;
+}
+
+export interface DividendInput {
+  id?: string;
+  stock_code: string;
+  // Net amount received, after any withholding tax
+  amount: number;
+  dividend_date: string;
+  income_type?: IncomeType;
+  gross_amount?: number;
+  withholding_tax?: number;
+}
+
+export type CorporateEventType = "split" | "reverse_split" | "bonus" | "ticker_change" | "merger";
+
+export interface CorporateEventInput {
+  id?: string;
+  ticker: string;
+  event_type: CorporateEventType;
+  event_date: string;
+  ratio_from: number;
+  ratio_to: number;
+  unit_cost?: number | null;
+  new_ticker?: string | null;
+  cash_per_share?: number | null;
+}
+
+export interface Lot {
+  transactionId?: string;
+  stockCode: string;
+  originalStockCode?: string;
+  date: Date;
+  originalQuantity: number;
+  quantity: number;
+  unitCost: number;
+  cost: number;
+  dividends: number;
+}
+
+export interface Position {
+  stockCode: string;
+  assetClass: AssetClass;
+  side: PositionSide;
+  // Negative for short positions, as is the total cost (the proceeds received)
+  quantity: number;
+  totalCost: number;
+  avgPrice: number;
+  firstPurchaseDate: Date | null;
+  dividends: number;
+  lots: Lot[];
+}
+
+export interface ClosedPosition {
+  stockCode: string;
+  tradeType: TradeType;
+  side: PositionSide;
+  originalStockCode?: string;
+  buyTransactionId?: string;
+  sellTransactionId?: string;
+  buyDate: Date;
+  sellDate: Date;
+  quantity: number;
+  buyPrice: number;
+  sellPrice: number;
+  buyValue: number;
+  sellValue: number;
+  dividends: number;
+  days: number;
+  returnReais: number;
+  returnPercent: number;
+  monthlyReturn: number;
+}
+
+export interface Sale {
+  transactionId?: string;
+  stockCode: string;
+  assetClass: AssetClass;
+  tradeType: TradeType;
+  date: Date;
+  quantity: number;
+  grossValue: number;
+  cost: number;
+  result: number;
+}
+
+export type PortfolioWarning =
+  | { type: "oversell"; stockCode: string; transactionId?: string; date: Date; quantity: number }
+  | { type: "unattributed_dividend"; stockCode: string; date: Date; amount: number };
+
+export interface PortfolioOptions {
+  costBasisMethod?: CostBasisMethod;
+  assetClasses?: AssetClassMap;
+  corporateEvents?: CorporateEventInput[];
+  quantityPrecision?: QuantityPrecision;
+}
+
+// The open positions as they stood at the end of a day with activity
+export interface PortfolioSnapshot {
+  // Day as yyyy-MM-dd
+  day: string;
+  positions: Position[];
+  totalInvested: number;
+  // Every dividend received up to the day
+  totalDividends: number;
+}
+
+export interface Portfolio {
+  costBasisMethod: CostBasisMethod;
+  assetClasses: AssetClassMap;
+  quantityPrecision: QuantityPrecision;
+  positions: Position[];
+  closedPositions: ClosedPosition[];
+  sales: Sale[];
+  dayTradeTransactionIds: string[];
+  totalInvested: number;
+  totalDividends: number;
+  realizedResult: number;
+  warnings: PortfolioWarning[];
+}
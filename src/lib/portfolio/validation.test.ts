@@ -0,0 +1,33 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_QUANTITY_PRECISION } from "./assetClass";
+import { transactionSchemaFor, validationError } from "./validation";
+
+const portfolio = { assetClasses: { HASH11: "crypto" as const }, quantityPrecision: { ...DEFAULT_QUANTITY_PRECISION, fii: 2 } };
+
+const transaction = (stock_code: string, quantity: number) => ({
+  stock_code,
+  transaction_type: "buy",
+  quantity,
+  price_per_share: 10,
+  total_value: 100,
+  transaction_date: "2024-01-02T00:00:00.000Z",
+  notes: null,
+});
+
+describe("transactionSchemaFor", () => {
+  it("rejects fractional quantities for whole-unit classes", () => {
+    expect(validationError(transactionSchemaFor(portfolio), transaction("PETR4", 10.5))).toBe("A quantidade deve ser um número inteiro");
+    expect(validationError(transactionSchemaFor(portfolio), transaction("PETR4F", 0.5))).toBe("A quantidade deve ser um número inteiro");
+  });
+
+  it("allows the places set for the asset's class", () => {
+    expect(validationError(transactionSchemaFor(portfolio), transaction("HGLG11", 1.25))).toBeNull();
+    expect(validationError(transactionSchemaFor(portfolio), transaction("HGLG11", 1.255))).toBe(
+      "A quantidade aceita no máximo 2 casas decimais",
+    );
+  });
+
+  it("resolves the class from the user's overrides", () => {
+    expect(validationError(transactionSchemaFor(portfolio), transaction("HASH11", 0.00012345))).toBeNull();
+  });
+});
@@ -0,0 +1,90 @@
+import { z } from "zod";
+import { decimalPlaces } from "@/lib/decimal";
+import { quantityPrecisionFor } from "./engine";
+import { transactionFees } from "./fees";
+import { INCOME_TYPES, IncomeType } from "./income";
+import type { Portfolio } from "./types";
+
+const stockCode = z
+  .string()
+  .trim()
+  .min(1, "Informe o código do ativo")
+  .regex(/^[A-Z0-9]{4,12}$/, "Código do ativo inválido");
+
+const isoDate = z
+  .string()
+  .refine(value => !isNaN(Date.parse(value)), "Data inválida");
+
+const fee = z
+  .number({ invalid_type_error: "Taxa inválida" })
+  .min(0, "As taxas não podem ser negativas")
+  .optional();
+
+/** Rules shared by the transaction form and the file importers. */
+export const transactionSchema = z
+  .object({
+    stock_code: stockCode,
+    transaction_type: z.enum(["buy", "sell"]),
+    quantity: z
+      .number({ invalid_type_error: "Quantidade inválida" })
+      .positive("A quantidade deve ser positiva"),
+    price_per_share: z
+      .number({ invalid_type_error: "Preço inválido" })
+      .min(0.01, "O preço deve ser de pelo menos R$ 0,01"),
+    total_value: z.number({ invalid_type_error: "Valor total inválido" }).positive("O valor total deve ser positivo"),
+    transaction_date: isoDate,
+    notes: z.string().max(1000, "Observações muito longas").nullable(),
+    brokerage_fee: fee,
+    exchange_fee: fee,
+    settlement_fee: fee,
+    other_fees: fee,
+  })
+  .refine(t => t.transaction_type === "buy" || transactionFees(t) < t.total_value, {
+    message: "As taxas não podem superar o valor da venda",
+    path: ["other_fees"],
+  });
+
+/** Rules shared by the dividend form and the file importers. */
+export const dividendSchema = z
+  .object({
+    stock_code: stockCode,
+    income_type: z.enum(INCOME_TYPES as [IncomeType, ...IncomeType[]]),
+    gross_amount: z
+      .number({ invalid_type_error: "Valor bruto inválido" })
+      .positive("O valor bruto deve ser positivo"),
+    withholding_tax: z
+      .number({ invalid_type_error: "Imposto retido inválido" })
+      .min(0, "O imposto retido não pode ser negativo"),
+    amount: z.number(),
+    dividend_date: isoDate,
+  })
+  .refine(dividend => dividend.withholding_tax <= dividend.gross_amount, {
+    message: "O imposto retido não pode ser maior que o valor bruto",
+    path: ["withholding_tax"],
+  });
+
+/** Checks a quantity against the decimal places allowed for its asset class. */
+export function quantityPrecisionError(quantity: number, places: number) {
+  if (decimalPlaces(quantity) <= places) return null;
+  return places === 0
+    ? "A quantidade deve ser um número inteiro"
+    : `A quantidade aceita no máximo ${places} casas decimais`;
+}
+
+/**
+ * The transaction rules plus the decimal places the asset's class allows in
+ * the quantity, which depend on the user's settings. The form and every
+ * importer validate transactions with it.
+ */
+export function transactionSchemaFor(portfolio: Pick<Portfolio, "assetClasses" | "quantityPrecision">) {
+  return transactionSchema.superRefine((transaction, ctx) => {
+    const message = quantityPrecisionError(transaction.quantity, quantityPrecisionFor(portfolio, transaction.stock_code));
+    if (message) ctx.addIssue({ code: z.ZodIssueCode.custom, message, path: ["quantity"] });
+  });
+}
+
+/** Returns the first validation message for the values, or null when they are valid. */
+export function validationError(schema: z.ZodTypeAny, values: unknown) {
+  const result = schema.safeParse(values);
+  return result.success ? null : result.error.errors[0].message;
+}
@@ -0,0 +1,94 @@
+import { parseISO } from "date-fns";
+import { QuoteProviderError, type PriceBar, type Quote, type QuoteProvider } from "./types";
+
+export const ALPHA_VANTAGE_URL = "https://www.alphavantage.co";
+
+interface GlobalQuote {
+  "01. symbol"?: string;
+  "05. price"?: string;
+  "07. latest trading day"?: string;
+}
+
+interface DailyBar {
+  "1. open": string;
+  "2. high": string;
+  "3. low": string;
+  "4. close": string;
+  "5. volume": string;
+}
+
+// The compact daily series holds the latest 100 trading days
+const COMPACT_DAYS = 100;
+
+export interface AlphaVantageOptions {
+  apiKey: string;
+  baseUrl?: string;
+}
+
+// B3 listings are quoted on Alpha Vantage with the Sao Paulo suffix
+const toSymbol = (ticker: string) => `${ticker}.SA`;
+
+/**
+ * Alpha Vantage quotes one symbol per request, so a batch is fetched one
+ * ticker at a time. A response without a quote (unknown ticker, or the
+ * "Note" it sends once the daily quota is used up) leaves the ticker out.
+ */
+export function createAlphaVantageProvider({ apiKey, baseUrl = ALPHA_VANTAGE_URL }: AlphaVantageOptions): QuoteProvider {
+  const query = async <T>(params: { [name: string]: string }): Promise<T> => {
+    const search = new URLSearchParams({ ...params, apikey: apiKey });
+    const response = await fetch(`${baseUrl.replace(/\/$/, "")}/query?${search}`);
+    if (!response.ok) throw new QuoteProviderError("Erro ao buscar cotações", response.status);
+    return response.json();
+  };
+
+  const fetchQuote = async (ticker: string): Promise<Quote | null> => {
+    const data = await query<{ "Global Quote"?: GlobalQuote }>({ function: "GLOBAL_QUOTE", symbol: toSymbol(ticker) });
+    const price = parseFloat(data["Global Quote"]?.["05. price"] || "");
+    if (isNaN(price)) return null;
+
+    const tradingDay = data["Global Quote"]?.["07. latest trading day"];
+    return {
+      ticker,
+      price,
+      currency: "BRL",
+      marketTime: tradingDay ? parseISO(tradingDay) : null,
+    };
+  };
+
+  return {
+    name: "alphavantage",
+    maxTickersPerRequest: 1,
+    async getQuotes(tickers) {
+      const quotes: Quote[] = [];
+      for (const ticker of tickers) {
+        const quote = await fetchQuote(ticker);
+        if (quote) quotes.push(quote);
+      }
+      return quotes;
+    },
+    // The free daily series is not adjusted, so adjusted closes are left empty
+    async getHistory(ticker, from) {
+      const fromDay = from.toISOString().slice(0, 10);
+      const days = (Date.now() - from.getTime()) / (1000 * 60 * 60 * 24);
+      const data = await query<{ "Time Series (Daily)"?: { [date: string]: DailyBar } }>({
+        function: "TIME_SERIES_DAILY",
+        symbol: toSymbol(ticker),
+        outputsize: days > COMPACT_DAYS ? "full" : "compact",
+      });
+
+      return Object.entries(data["Time Series (Daily)"] || {})
+        .filter(([date]) => date >= fromDay)
+        .map(([date, bar]): PriceBar => ({
+          ticker,
+          date,
+          open: parseFloat(bar["1. open"]),
+          high: parseFloat(bar["2. high"]),
+          low: parseFloat(bar["3. low"]),
+          close: parseFloat(bar["4. close"]),
+          adjustedClose: null,
+          volume: parseInt(bar["5. volume"], 10),
+        }))
+        .sort((a, b) => a.date.localeCompare(b.date));
+    },
+  };
+}
@@ -0,0 +1,142 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { QueryClient } from "@tanstack/react-query";
+import { chunkTickers, createQuoteBatcher, quoteRetryDelay, shouldRetryQuote } from "./batch";
+import { createMockProvider, mockPrice } from "./mock";
+import { QuoteProviderError, type QuoteProvider } from "./types";
+
+/** The mock provider with a ticker limit, recording the tickers of every request. */
+const recordingProvider = (maxTickersPerRequest: number, prices: { [ticker: string]: number } = {}) => {
+  const provider = createMockProvider(prices);
+  const requests: string[][] = [];
+  const recording: QuoteProvider = {
+    ...provider,
+    maxTickersPerRequest,
+    getQuotes: vi.fn(async (tickers: string[]) => {
+      requests.push(tickers);
+      return provider.getQuotes(tickers);
+    }),
+  };
+  return { provider: recording, requests };
+};
+
+describe("chunkTickers", () => {
+  it("splits tickers into batches of the given size", () => {
+    expect(chunkTickers(["A", "B", "C", "D", "E"], 2)).toEqual([["A", "B"], ["C", "D"], ["E"]]);
+  });
+
+  it("keeps everything in one batch without a limit", () => {
+    expect(chunkTickers(["A", "B", "C"], Infinity)).toEqual([["A", "B", "C"]]);
+  });
+
+  it("returns no batches for no tickers", () => {
+    expect(chunkTickers([], 10)).toEqual([]);
+  });
+});
+
+describe("createQuoteBatcher", () => {
+  it("fetches tickers asked for in the same tick together, under the provider limit", async () => {
+    const { provider, requests } = recordingProvider(2);
+    const load = createQuoteBatcher(provider);
+
+    const quotes = await Promise.all(["PETR4", "VALE3", "ITUB4", "PETR4", "WEGE3"].map(load));
+
+    expect(requests).toEqual([["PETR4", "VALE3"], ["ITUB4", "WEGE3"]]);
+    expect(quotes.map(quote => quote.price)).toEqual(
+      ["PETR4", "VALE3", "ITUB4", "PETR4", "WEGE3"].map(ticker => mockPrice(ticker)),
+    );
+  });
+
+  it("serves the same deterministic prices on every run", async () => {
+    const first = await createQuoteBatcher(createMockProvider())("BBAS3");
+    const second = await createQuoteBatcher(createMockProvider())("BBAS3");
+
+    expect(first).toEqual(second);
+    expect(first.price).toBe(mockPrice("BBAS3"));
+  });
+
+  it("asks again one ticker at a time when a batch fails with 404", async () => {
+    const { provider, requests } = recordingProvider(10);
+    const getQuotes = provider.getQuotes;
+    // Like Brapi, one unknown ticker fails the whole request
+    provider.getQuotes = async tickers => {
+      if (tickers.includes("XXXX3")) {
+        requests.push(tickers);
+        throw new QuoteProviderError("Nenhum ativo encontrado", 404);
+      }
+      return getQuotes(tickers);
+    };
+    const load = createQuoteBatcher(provider);
+
+    const [petr, unknown, vale] = await Promise.allSettled(["PETR4", "XXXX3", "VALE3"].map(load));
+
+    expect(requests).toEqual([["PETR4", "XXXX3", "VALE3"], ["PETR4"], ["XXXX3"], ["VALE3"]]);
+    expect(petr).toEqual({ status: "fulfilled", value: expect.objectContaining({ price: mockPrice("PETR4") }) });
+    expect(vale).toEqual({ status: "fulfilled", value: expect.objectContaining({ price: mockPrice("VALE3") }) });
+    expect(unknown).toEqual({ status: "rejected", reason: expect.objectContaining({ status: 404 }) });
+  });
+
+  it("fails only the tickers missing from a response", async () => {
+    const provider = createMockProvider();
+    const getQuotes = provider.getQuotes;
+    provider.getQuotes = async tickers => (await getQuotes(tickers)).filter(quote => quote.ticker !== "XXXX3");
+    const load = createQuoteBatcher(provider);
+
+    const [known, missing] = await Promise.allSettled(["ITSA4", "XXXX3"].map(load));
+
+    expect(known.status).toBe("fulfilled");
+    expect(missing).toEqual({ status: "rejected", reason: expect.objectContaining({ message: "Sem cotação para XXXX3" }) });
+  });
+});
+
+describe("rate limit retries", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("retries only rate-limited requests, a limited number of times", () => {
+    expect(shouldRetryQuote(0, new QuoteProviderError("Limite", 429))).toBe(true);
+    expect(shouldRetryQuote(4, new QuoteProviderError("Limite", 429))).toBe(true);
+    expect(shouldRetryQuote(5, new QuoteProviderError("Limite", 429))).toBe(false);
+    expect(shouldRetryQuote(0, new QuoteProviderError("Não encontrado", 404))).toBe(false);
+    expect(shouldRetryQuote(0, new Error("Falha de rede"))).toBe(false);
+  });
+
+  it("doubles the delay from one second up to thirty", () => {
+    expect([0, 1, 2, 3, 4, 5, 6].map(quoteRetryDelay)).toEqual([1000, 2000, 4000, 8000, 16000, 30000, 30000]);
+  });
+
+  it("backs off and recovers when the provider stops rate limiting", async () => {
+    vi.useFakeTimers();
+    const provider = createMockProvider();
+    const getQuotes = provider.getQuotes;
+    let calls = 0;
+    provider.getQuotes = async tickers => {
+      calls += 1;
+      if (calls <= 2) throw new QuoteProviderError("Limite de requisições", 429);
+      return getQuotes(tickers);
+    };
+    const load = createQuoteBatcher(provider);
+    const queryClient = new QueryClient();
+
+    const quote = queryClient.fetchQuery({
+      queryKey: ["quote", "mock", "PETR4"],
+      queryFn: () => load("PETR4"),
+      retry: shouldRetryQuote,
+      retryDelay: quoteRetryDelay,
+    });
+
+    // Each attempt reaches the provider a tick later, when the batcher flushes
+    await vi.advanceTimersByTimeAsync(1);
+    expect(calls).toBe(1);
+    await vi.advanceTimersByTimeAsync(999);
+    expect(calls).toBe(1);
+    await vi.advanceTimersByTimeAsync(2);
+    expect(calls).toBe(2);
+    await vi.advanceTimersByTimeAsync(1999);
+    expect(calls).toBe(2);
+    await vi.advanceTimersByTimeAsync(2);
+    expect(calls).toBe(3);
+
+    await expect(quote).resolves.toMatchObject({ ticker: "PETR4", price: mockPrice("PETR4") });
+  });
+});
@@ -0,0 +1,76 @@
+import { QuoteProviderError, type Quote, type QuoteProvider } from "./types";
+
+// Backoff after a rate limit doubles from one second and never exceeds this
+const MAX_RETRY_DELAY = 30_000;
+const MAX_RATE_LIMIT_RETRIES = 5;
+
+interface PendingQuote {
+  ticker: string;
+  resolve: (quote: Quote) => void;
+  reject: (error: unknown) => void;
+}
+
+/** Splits tickers into batches no larger than the provider accepts in one request. */
+export function chunkTickers(tickers: string[], size: number) {
+  const chunks: string[][] = [];
+  const step = Number.isFinite(size) && size > 0 ? size : tickers.length || 1;
+  for (let i = 0; i < tickers.length; i += step) {
+    chunks.push(tickers.slice(i, i + step));
+  }
+  return chunks;
+}
+
+/**
+ * Returns a loader for a single ticker's quote. Tickers asked for in the same
+ * tick are fetched together, in as few requests as the provider's ticker
+ * limit allows, so each ticker can be cached on its own without costing a
+ * request of its own. Batches run one after the other to stay under rate
+ * limits; a ticker missing from the response fails on its own.
+ */
+export function createQuoteBatcher(provider: QuoteProvider) {
+  let pending: PendingQuote[] = [];
+
+  const flush = async () => {
+    const batch = pending;
+    pending = [];
+
+    const chunks = chunkTickers([...new Set(batch.map(p => p.ticker))], provider.maxTickersPerRequest);
+    while (chunks.length > 0) {
+      const chunk = chunks.shift()!;
+      const waiting = batch.filter(p => chunk.includes(p.ticker));
+      try {
+        const quotes = await provider.getQuotes(chunk);
+        waiting.forEach(p => {
+          const quote = quotes.find(q => q.ticker === p.ticker);
+          if (quote) {
+            p.resolve(quote);
+          } else {
+            p.reject(new QuoteProviderError(`Sem cotação para ${p.ticker}`));
+          }
+        });
+      } catch (error) {
+        // Brapi fails the whole request over one unknown ticker, so the
+        // batch is asked again one ticker at a time
+        if (error instanceof QuoteProviderError && error.status === 404 && chunk.length > 1) {
+          chunks.unshift(...chunk.map(ticker => [ticker]));
+        } else {
+          waiting.forEach(p => p.reject(error));
+        }
+      }
+    }
+  };
+
+  return (ticker: string) => new Promise<Quote>((resolve, reject) => {
+    if (pending.length === 0) setTimeout(flush, 0);
+    pending.push({ ticker, resolve, reject });
+  });
+}
+
+/** Only rate-limited requests are retried; an unknown ticker will not start working. */
+export function shouldRetryQuote(failureCount: number, error: unknown) {
+  return error instanceof QuoteProviderError && error.status === 429 && failureCount < MAX_RATE_LIMIT_RETRIES;
+}
+
+export function quoteRetryDelay(attempt: number) {
+  return Math.min(1000 * 2 ** attempt, MAX_RETRY_DELAY);
+}
@@ -0,0 +1,64 @@
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { spawn, type ChildProcess } from "node:child_process";
+import { readFileSync } from "node:fs";
+import { createBrapiProvider } from "./brapi";
+import { createQuoteBatcher } from "./batch";
+
+// The local fixture server (npm run quotes:fixtures) speaks Brapi's API with fixed prices
+const fixturePrices: { [ticker: string]: number } = JSON.parse(
+  readFileSync(new URL("../../../scripts/fixtures/quotes.json", import.meta.url), "utf8"),
+);
+const port = 40000 + (process.pid % 10000);
+let server: ChildProcess;
+
+beforeAll(async () => {
+  server = spawn(process.execPath, ["scripts/quote-fixture-server.mjs"], {
+    env: { ...process.env, QUOTE_FIXTURE_PORT: String(port) },
+    stdio: ["ignore", "pipe", "inherit"],
+  });
+  await new Promise<void>((resolve, reject) => {
+    server.once("error", reject);
+    server.stdout!.once("data", () => resolve());
+  });
+});
+
+afterAll(() => {
+  server.kill();
+});
+
+describe("Brapi provider against the fixture server", () => {
+  const provider = createBrapiProvider({ baseUrl: `http://localhost:${port}` });
+
+  it("reads the fixture prices", async () => {
+    const quotes = await provider.getQuotes(["PETR4", "VALE3"]);
+
+    expect(quotes).toEqual([
+      { ticker: "PETR4", price: fixturePrices.PETR4, currency: "BRL", marketTime: new Date("2025-01-02T18:00:00.000Z") },
+      { ticker: "VALE3", price: fixturePrices.VALE3, currency: "BRL", marketTime: new Date("2025-01-02T18:00:00.000Z") },
+    ]);
+  });
+
+  it("fails with 404 when no ticker is known", async () => {
+    await expect(provider.getQuotes(["XXXX3"])).rejects.toMatchObject({ status: 404 });
+  });
+
+  it("loads every ticker through the batcher, failing only unknown ones", async () => {
+    const load = createQuoteBatcher(provider);
+    const tickers = [...Object.keys(fixturePrices), "XXXX3"];
+
+    const results = await Promise.allSettled(tickers.map(load));
+
+    expect(results.slice(0, -1).map(result => result.status === "fulfilled" && result.value.price)).toEqual(
+      Object.values(fixturePrices),
+    );
+    expect(results[results.length - 1].status).toBe("rejected");
+  });
+
+  it("serves daily history at the fixture price", async () => {
+    const from = new Date(Date.now() - 14 * 24 * 60 * 60 * 1000);
+    const bars = await provider.getHistory("ITUB4", from);
+
+    expect(bars.length).toBeGreaterThanOrEqual(8);
+    expect(bars.every(bar => bar.close === fixturePrices.ITUB4 && bar.date >= from.toISOString().slice(0, 10))).toBe(true);
+  });
+});
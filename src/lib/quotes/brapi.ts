@@ -0,0 +1,98 @@
+import { QuoteProviderError, type PriceBar, type Quote, type QuoteProvider } from "./types";
+
+export const BRAPI_URL = "https://brapi.dev";
+
+// Brapi rejects larger batches on the free plan
+const BRAPI_MAX_TICKERS = 10;
+
+interface BrapiQuote {
+  symbol: string;
+  regularMarketPrice?: number | null;
+  regularMarketTime?: string | null;
+  currency?: string | null;
+}
+
+interface BrapiBar {
+  // Unix time in seconds
+  date: number;
+  open?: number | null;
+  high?: number | null;
+  low?: number | null;
+  close?: number | null;
+  adjustedClose?: number | null;
+  volume?: number | null;
+}
+
+// History ranges Brapi accepts, with the days each one covers
+const BRAPI_RANGES: [string, number][] = [
+  ["5d", 5],
+  ["1mo", 31],
+  ["3mo", 92],
+  ["6mo", 183],
+  ["1y", 366],
+  ["2y", 731],
+  ["5y", 1827],
+  ["10y", 3653],
+];
+
+/** Smallest Brapi history range that reaches back to the given day. */
+function brapiRange(from: Date, now = new Date()) {
+  const days = Math.ceil((now.getTime() - from.getTime()) / (1000 * 60 * 60 * 24));
+  return BRAPI_RANGES.find(([, rangeDays]) => days <= rangeDays)?.[0] || "max";
+}
+
+function parseBrapiBars(ticker: string, bars: BrapiBar[], from: Date): PriceBar[] {
+  const fromDay = from.toISOString().slice(0, 10);
+  return bars
+    .filter(bar => typeof bar.close === "number")
+    .map(bar => ({
+      ticker,
+      date: new Date(bar.date * 1000).toISOString().slice(0, 10),
+      open: bar.open ?? null,
+      high: bar.high ?? null,
+      low: bar.low ?? null,
+      close: bar.close!,
+      adjustedClose: bar.adjustedClose ?? null,
+      volume: bar.volume ?? null,
+    }))
+    .filter(bar => bar.date >= fromDay)
+    .sort((a, b) => a.date.localeCompare(b.date));
+}
+
+export interface BrapiOptions {
+  // Another host speaking Brapi's API, such as the local fixture server
+  baseUrl?: string;
+}
+
+export function createBrapiProvider({ baseUrl = BRAPI_URL }: BrapiOptions = {}): QuoteProvider {
+  const apiUrl = `${baseUrl.replace(/\/$/, "")}/api/quote`;
+
+  return {
+    name: "brapi",
+    maxTickersPerRequest: BRAPI_MAX_TICKERS,
+    async getQuotes(tickers) {
+      if (tickers.length === 0) return [];
+
+      const response = await fetch(`${apiUrl}/${tickers.map(encodeURIComponent).join(",")}`);
+      if (!response.ok) throw new QuoteProviderError("Erro ao buscar cotações", response.status);
+
+      const data: { results?: BrapiQuote[] } = await response.json();
+      return (data.results || [])
+        .filter(result => typeof result.regularMarketPrice === "number")
+        .map((result): Quote => ({
+          ticker: result.symbol,
+          price: result.regularMarketPrice!,
+          currency: result.currency || "BRL",
+          marketTime: result.regularMarketTime ? new Date(result.regularMarketTime) : null,
+        }));
+    },
+    async getHistory(ticker, from) {
+      const params = new URLSearchParams({ range: brapiRange(from), interval: "1d" });
+      const response = await fetch(`${apiUrl}/${encodeURIComponent(ticker)}?${params}`);
+      if (!response.ok) throw new QuoteProviderError("Erro ao buscar o histórico de preços", response.status);
+
+      const data: { results?: { historicalDataPrice?: BrapiBar[] }[] } = await response.json();
+      return parseBrapiBars(ticker, data.results?.[0]?.historicalDataPrice || [], from);
+    },
+  };
+}
@@ -0,0 +1,82 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { baseTicker, dayKey, type TransactionInput } from "@/lib/portfolio";
+import type { PriceBar } from "./types";
+
+// PostgREST caps each response, so history is read in pages
+const PAGE_SIZE = 1000;
+
+export type PriceHistory = { [ticker: string]: PriceBar[] };
+
+export function toPriceBar(row: Tables<"price_history">): PriceBar {
+  return {
+    ticker: row.ticker,
+    date: row.date,
+    open: row.open,
+    high: row.high,
+    low: row.low,
+    close: Number(row.close),
+    adjustedClose: row.adjusted_close,
+    volume: row.volume,
+  };
+}
+
+/** Stored daily bars of the tickers between the given days, oldest first. */
+export async function fetchPriceHistory(tickers: string[], from: Date, to?: Date): Promise<PriceHistory> {
+  const history: PriceHistory = Object.fromEntries(tickers.map(ticker => [ticker, []]));
+  if (tickers.length === 0) return history;
+
+  for (let start = 0; ; start += PAGE_SIZE) {
+    let query = supabase
+      .from("price_history")
+      .select("*")
+      .in("ticker", tickers)
+      .gte("date", dayKey(from));
+    if (to) query = query.lte("date", dayKey(to));
+
+    const { data, error } = await query
+      .order("ticker")
+      .order("date")
+      .range(start, start + PAGE_SIZE - 1);
+
+    if (error) throw error;
+    data.forEach(row => history[row.ticker].push(toPriceBar(row)));
+    if (data.length < PAGE_SIZE) return history;
+  }
+}
+
+/**
+ * Day each ticker's price history has to start from: its first trade, with
+ * fractional-market trades counted under the base ticker.
+ */
+export function historyStartDates(transactions: Pick<TransactionInput, "stock_code" | "transaction_date">[]) {
+  const starts: { [ticker: string]: Date } = {};
+  transactions.forEach(t => {
+    const ticker = baseTicker(t.stock_code);
+    const date = new Date(t.transaction_date);
+    if (!starts[ticker] || date < starts[ticker]) starts[ticker] = date;
+  });
+  return starts;
+}
+
+/**
+ * Close on the given day or, when there was no trading (weekends, holidays),
+ * the last close before it. Null before the first bar.
+ */
+export function closeOn(bars: PriceBar[], date: string | Date) {
+  const day = dayKey(date);
+  let low = 0;
+  let high = bars.length - 1;
+  let found: PriceBar | null = null;
+
+  while (low <= high) {
+    const middle = Math.floor((low + high) / 2);
+    if (bars[middle].date <= day) {
+      found = bars[middle];
+      low = middle + 1;
+    } else {
+      high = middle - 1;
+    }
+  }
+  return found ? found.close : null;
+}
@@ -0,0 +1,8 @@
+export * from "./types";
+export * from "./supabase";
+export * from "./brapi";
+export * from "./alphaVantage";
+export * from "./mock";
+export * from "./batch";
+export * from "./history";
+export * from "./provider";
@@ -0,0 +1,69 @@
+import { roundMoney } from "@/lib/decimal";
+import type { PriceBar, Quote, QuoteProvider } from "./types";
+
+// Fixed timestamp so mocked quotes never depend on when they were asked for
+const MOCK_MARKET_TIME = new Date("2025-01-02T18:00:00.000Z");
+
+/**
+ * Deterministic price for a ticker between R$ 5,00 and R$ 104,99, derived
+ * from a hash of its code so every run sees the same quote.
+ */
+export function mockPrice(ticker: string) {
+  let hash = 0;
+  for (const char of ticker) {
+    hash = (hash * 31 + char.charCodeAt(0)) % 10000;
+  }
+  return (500 + hash) / 100;
+}
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+/**
+ * Deterministic daily history up to today: a slow wave around the ticker's
+ * mock price, one bar per weekday, where each close depends only on its date.
+ */
+export function mockHistory(ticker: string, from: Date, price = mockPrice(ticker)): PriceBar[] {
+  const phase = price % 7;
+  const bars: PriceBar[] = [];
+  const start = Date.UTC(from.getUTCFullYear(), from.getUTCMonth(), from.getUTCDate());
+
+  for (let time = start; time <= Date.now(); time += DAY_MS) {
+    const day = new Date(time);
+    if (day.getUTCDay() === 0 || day.getUTCDay() === 6) continue;
+
+    const close = roundMoney(price * (1 + 0.15 * Math.sin(time / DAY_MS / 45 + phase)));
+    bars.push({
+      ticker,
+      date: day.toISOString().slice(0, 10),
+      open: close,
+      high: close,
+      low: close,
+      close,
+      adjustedClose: close,
+      volume: 0,
+    });
+  }
+  return bars;
+}
+
+/**
+ * Quotes served without any network access, for running the app offline.
+ * Prices given here override the hashed ones.
+ */
+export function createMockProvider(prices: { [ticker: string]: number } = {}): QuoteProvider {
+  return {
+    name: "mock",
+    maxTickersPerRequest: Infinity,
+    async getQuotes(tickers) {
+      return tickers.map(ticker => ({
+        ticker,
+        price: prices[ticker] ?? mockPrice(ticker),
+        currency: "BRL",
+        marketTime: MOCK_MARKET_TIME,
+      }));
+    },
+    async getHistory(ticker, from) {
+      return mockHistory(ticker, from, prices[ticker] ?? mockPrice(ticker));
+    },
+  };
+}
@@ -0,0 +1,54 @@
+import { createAlphaVantageProvider } from "./alphaVantage";
+import { createBrapiProvider } from "./brapi";
+import { createMockProvider } from "./mock";
+import { createSupabaseProvider } from "./supabase";
+import type { QuoteProvider, QuoteProviderName } from "./types";
+
+export const QUOTE_PROVIDER_LABELS: { [key in QuoteProviderName]: string } = {
+  supabase: "Brapi (via servidor)",
+  brapi: "Brapi",
+  alphavantage: "Alpha Vantage",
+  mock: "Cotações simuladas",
+};
+
+export const QUOTE_PROVIDERS = Object.keys(QUOTE_PROVIDER_LABELS) as QuoteProviderName[];
+
+export const DEFAULT_QUOTE_PROVIDER: QuoteProviderName = "supabase";
+
+export function isQuoteProviderName(value: unknown): value is QuoteProviderName {
+  return typeof value === "string" && value in QUOTE_PROVIDER_LABELS;
+}
+
+export interface QuoteEnvironment {
+  VITE_QUOTE_PROVIDER?: string;
+  VITE_BRAPI_URL?: string;
+  VITE_ALPHA_VANTAGE_KEY?: string;
+}
+
+/**
+ * Builds the provider an environment asks for through VITE_QUOTE_PROVIDER,
+ * falling back to the quotes Edge Function when it is unset or unknown.
+ */
+export function createQuoteProvider(env: QuoteEnvironment): QuoteProvider {
+  const name = isQuoteProviderName(env.VITE_QUOTE_PROVIDER) ? env.VITE_QUOTE_PROVIDER : DEFAULT_QUOTE_PROVIDER;
+
+  switch (name) {
+    case "alphavantage":
+      if (!env.VITE_ALPHA_VANTAGE_KEY) throw new Error("Defina VITE_ALPHA_VANTAGE_KEY para usar a Alpha Vantage");
+      return createAlphaVantageProvider({ apiKey: env.VITE_ALPHA_VANTAGE_KEY });
+    case "mock":
+      return createMockProvider();
+    case "brapi":
+      return createBrapiProvider({ baseUrl: env.VITE_BRAPI_URL || undefined });
+    default:
+      return createSupabaseProvider();
+  }
+}
+
+let provider: QuoteProvider | null = null;
+
+/** The quote provider configured for the current Vite environment. */
+export function getQuoteProvider() {
+  if (!provider) provider = createQuoteProvider(import.meta.env);
+  return provider;
+}
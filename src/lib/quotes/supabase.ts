@@ -0,0 +1,109 @@
+import { FunctionsHttpError } from "@supabase/supabase-js";
+import { supabase } from "@/integrations/supabase/client";
+import { dayKey } from "@/lib/portfolio";
+import { chunkTickers } from "./batch";
+import { fetchPriceHistory } from "./history";
+import { QuoteProviderError, type PriceBar, type Quote, type QuoteProvider } from "./types";
+
+// The quotes Edge Function accepts up to this many tickers per call and batches Brapi itself
+const FUNCTION_MAX_TICKERS = 100;
+// The price-history Edge Function accepts up to this many tickers per call
+const HISTORY_FUNCTION_MAX_TICKERS = 50;
+
+interface FunctionQuote {
+  ticker: string;
+  price: number;
+  currency: string;
+  marketTime: string | null;
+}
+
+interface PendingHistory {
+  ticker: string;
+  from: Date;
+  resolve: (bars: PriceBar[]) => void;
+  reject: (error: unknown) => void;
+}
+
+const statusOf = (error: Error) =>
+  error instanceof FunctionsHttpError ? (error.context as Response).status : undefined;
+
+/**
+ * Returns a loader for a single ticker's history. Tickers asked for in the
+ * same tick are brought up to date by the price-history function together,
+ * in calls of up to its ticker limit, and each call's tickers are then read
+ * from price_history in one query.
+ */
+function createHistoryBatcher() {
+  let pending: PendingHistory[] = [];
+
+  const flush = async () => {
+    const batch = pending;
+    pending = [];
+
+    // A ticker asked for twice is synced from the earlier day
+    const starts: { [ticker: string]: Date } = {};
+    batch.forEach(({ ticker, from }) => {
+      if (!starts[ticker] || from < starts[ticker]) starts[ticker] = from;
+    });
+
+    for (const chunk of chunkTickers(Object.keys(starts), HISTORY_FUNCTION_MAX_TICKERS)) {
+      const waiting = batch.filter(p => chunk.includes(p.ticker));
+      try {
+        const { data, error } = await supabase.functions.invoke<{ failed: { ticker: string; error: string }[] }>(
+          "price-history",
+          { body: { tickers: chunk.map(ticker => ({ ticker, from: dayKey(starts[ticker]) })) } },
+        );
+        if (error) throw new QuoteProviderError("Erro ao atualizar o histórico de preços", statusOf(error));
+
+        const from = new Date(Math.min(...chunk.map(ticker => starts[ticker].getTime())));
+        const history = await fetchPriceHistory(chunk, from);
+        waiting.forEach(p => {
+          const failure = data?.failed.find(f => f.ticker === p.ticker);
+          if (failure) {
+            p.reject(new QuoteProviderError(`Erro ao atualizar o histórico de ${p.ticker}: ${failure.error}`));
+          } else {
+            p.resolve(history[p.ticker].filter(bar => bar.date >= dayKey(p.from)));
+          }
+        });
+      } catch (error) {
+        waiting.forEach(p => p.reject(error));
+      }
+    }
+  };
+
+  return (ticker: string, from: Date) => new Promise<PriceBar[]>((resolve, reject) => {
+    if (pending.length === 0) setTimeout(flush, 0);
+    pending.push({ ticker, from, resolve, reject });
+  });
+}
+
+/**
+ * Quotes through the project's quotes Edge Function, which holds the Brapi
+ * token as a server secret and shares a quote cache across users. History is
+ * brought up to date by the price-history function and then read from the
+ * price_history table.
+ */
+export function createSupabaseProvider(): QuoteProvider {
+  const loadHistory = createHistoryBatcher();
+
+  return {
+    name: "supabase",
+    maxTickersPerRequest: FUNCTION_MAX_TICKERS,
+    async getQuotes(tickers) {
+      if (tickers.length === 0) return [];
+
+      const { data, error } = await supabase.functions.invoke<{ results: FunctionQuote[] }>("quotes", {
+        body: { tickers },
+      });
+      if (error) throw new QuoteProviderError("Erro ao buscar cotações", statusOf(error));
+
+      return (data?.results || []).map((result): Quote => ({
+        ticker: result.ticker,
+        price: result.price,
+        currency: result.currency,
+        marketTime: result.marketTime ? new Date(result.marketTime) : null,
+      }));
+    },
+    getHistory: loadHistory,
+  };
+}
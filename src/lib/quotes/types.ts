@@ -0,0 +1,40 @@
+export type QuoteProviderName = "supabase" | "brapi" | "alphavantage" | "mock";
+
+export interface Quote {
+  ticker: string;
+  price: number;
+  currency: string;
+  // When the exchange last traded the asset, if the provider reports it
+  marketTime: Date | null;
+}
+
+// One trading day of an asset
+export interface PriceBar {
+  ticker: string;
+  // Trading day as yyyy-MM-dd
+  date: string;
+  open: number | null;
+  high: number | null;
+  low: number | null;
+  close: number;
+  // Close adjusted for dividends and splits, when the provider has it
+  adjustedClose: number | null;
+  volume: number | null;
+}
+
+export interface QuoteProvider {
+  name: QuoteProviderName;
+  // Most tickers a single request to the provider may carry
+  maxTickersPerRequest: number;
+  /** Latest quotes for the tickers; tickers the provider does not know are left out. */
+  getQuotes(tickers: string[]): Promise<Quote[]>;
+  /** Daily bars of the ticker from the given day up to the latest close, oldest first. */
+  getHistory(ticker: string, from: Date): Promise<PriceBar[]>;
+}
+
+export class QuoteProviderError extends Error {
+  constructor(message: string, readonly status?: number) {
+    super(message);
+    this.name = "QuoteProviderError";
+  }
+}
@@ -0,0 +1,69 @@
+// Fixed-date national holidays as [month (1-12), day]
+const FIXED_HOLIDAYS: Array<[number, number]> = [
+  [1, 1],
+  [4, 21],
+  [5, 1],
+  [9, 7],
+  [10, 12],
+  [11, 2],
+  [11, 15],
+  [11, 20],
+  [12, 25],
+];
+
+const addDays = (date: Date, days: number) =>
+  new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+
+// Anonymous Gregorian algorithm
+export function easterSunday(year: number) {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+  return new Date(year, month - 1, day);
+}
+
+/**
+ * National banking holidays, including the Easter-based ones (Carnaval,
+ * Sexta-feira Santa and Corpus Christi) on which DARFs cannot be paid.
+ */
+export function nationalHolidays(year: number): Date[] {
+  const easter = easterSunday(year);
+  const holidays = FIXED_HOLIDAYS
+    .filter(([month, day]) => !(month === 11 && day === 20 && year < 2024))
+    .map(([month, day]) => new Date(year, month - 1, day));
+
+  return [
+    ...holidays,
+    addDays(easter, -48),
+    addDays(easter, -47),
+    addDays(easter, -2),
+    addDays(easter, 60),
+  ];
+}
+
+export function isBusinessDay(date: Date) {
+  const weekday = date.getDay();
+  if (weekday === 0 || weekday === 6) return false;
+
+  return !nationalHolidays(date.getFullYear()).some(holiday => holiday.getTime() === date.getTime());
+}
+
+/** Last business day of the given month (0-11). */
+export function lastBusinessDayOfMonth(year: number, month: number) {
+  let date = new Date(year, month + 1, 0);
+  while (!isBusinessDay(date)) {
+    date = addDays(date, -1);
+  }
+  return date;
+}
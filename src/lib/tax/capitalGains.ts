@@ -0,0 +1,175 @@
+import type { AssetClass, Sale } from "@/lib/portfolio";
+import { multiply, roundMoney, subtract, sum, sumBy } from "@/lib/decimal";
+import { lastBusinessDayOfMonth } from "./calendar";
+
+export const STOCK_SALES_EXEMPTION_LIMIT = 20000;
+export const SWING_TRADE_TAX_RATE = 0.15;
+export const DAY_TRADE_TAX_RATE = 0.2;
+export const FII_TAX_RATE = 0.2;
+export const DARF_CODE = "6015";
+// Receita does not accept DARFs under R$ 10,00; smaller amounts roll into the next month
+export const MINIMUM_DARF_AMOUNT = 10;
+
+export type TaxBucket = "swing" | "day_trade" | "fii";
+
+export interface TaxBucketRule {
+  label: string;
+  rate: number;
+  exemptionLimit: number | null;
+  // Only sales of these classes count towards, and benefit from, the exemption
+  exemptClasses: AssetClass[];
+}
+
+// Each bucket has its own rate and its own loss carry-forward
+export const TAX_BUCKET_RULES: { [key in TaxBucket]: TaxBucketRule } = {
+  swing: {
+    label: "Operações comuns",
+    rate: SWING_TRADE_TAX_RATE,
+    exemptionLimit: STOCK_SALES_EXEMPTION_LIMIT,
+    exemptClasses: ["stock"],
+  },
+  day_trade: { label: "Day trade", rate: DAY_TRADE_TAX_RATE, exemptionLimit: null, exemptClasses: [] },
+  fii: { label: "Fundos imobiliários", rate: FII_TAX_RATE, exemptionLimit: null, exemptClasses: [] },
+};
+
+export const TAX_BUCKETS = Object.keys(TAX_BUCKET_RULES) as TaxBucket[];
+
+// Investment funds and crypto assets follow their own rules and are left out of the B3 DARF
+const UNTRACKED_CLASSES: AssetClass[] = ["fund", "crypto"];
+
+export function taxBucketFor(sale: Sale): TaxBucket | null {
+  if (UNTRACKED_CLASSES.includes(sale.assetClass)) return null;
+  if (sale.assetClass === "fii") return "fii";
+  return sale.tradeType === "day" ? "day_trade" : "swing";
+}
+
+export interface Darf {
+  code: string;
+  referenceMonth: string;
+  dueDate: Date;
+  amount: number;
+}
+
+export interface BucketTax {
+  bucket: TaxBucket;
+  grossSales: number;
+  result: number;
+  exempt: boolean;
+  exemptResult: number;
+  lossCarriedIn: number;
+  lossCompensated: number;
+  lossCarriedOut: number;
+  taxableResult: number;
+  taxRate: number;
+  taxDue: number;
+}
+
+export interface MonthlyTax {
+  month: string;
+  buckets: { [key in TaxBucket]: BucketTax };
+  grossSales: number;
+  lossCompensated: number;
+  taxableResult: number;
+  taxDue: number;
+  pendingTaxCarriedIn: number;
+  amountPayable: number;
+  darf: Darf | null;
+}
+
+// Sale dates are stored as UTC midnight, so the month is read in UTC as well
+export const monthKey = (date: Date) => date.toISOString().slice(0, 7);
+
+export function darfDueDate(month: string) {
+  const [year, monthNumber] = month.split("-").map(Number);
+  // monthNumber is 1-based, so it already points at the following month
+  return lastBusinessDayOfMonth(year, monthNumber);
+}
+
+function calculateBucketTax(bucket: TaxBucket, sales: Sale[], lossCarriedIn: number): BucketTax {
+  const rule = TAX_BUCKET_RULES[bucket];
+  // Results are settled in cents, as they are declared to the Receita
+  const grossSales = roundMoney(sumBy(sales, sale => sale.grossValue));
+  const result = roundMoney(sumBy(sales, sale => sale.result));
+  const exemptSales = sales.filter(sale => rule.exemptClasses.includes(sale.assetClass));
+  const exempt = rule.exemptionLimit !== null
+    && exemptSales.length > 0
+    && roundMoney(sumBy(exemptSales, sale => sale.grossValue)) <= rule.exemptionLimit;
+  // Exempt gains are dropped, but losses on exempt sales can still be carried forward
+  const exemptResult = exempt ? Math.max(0, roundMoney(sumBy(exemptSales, sale => sale.result))) : 0;
+  const netResult = subtract(result, exemptResult);
+
+  let lossCarriedOut = lossCarriedIn;
+  let lossCompensated = 0;
+  let taxableResult = 0;
+
+  if (netResult < 0) {
+    lossCarriedOut = subtract(lossCarriedOut, netResult);
+  } else {
+    lossCompensated = Math.min(lossCarriedIn, netResult);
+    lossCarriedOut = subtract(lossCarriedOut, lossCompensated);
+    taxableResult = subtract(netResult, lossCompensated);
+  }
+
+  return {
+    bucket,
+    grossSales,
+    result,
+    exempt,
+    exemptResult,
+    lossCarriedIn,
+    lossCompensated,
+    lossCarriedOut,
+    taxableResult,
+    taxRate: rule.rate,
+    taxDue: roundMoney(multiply(taxableResult, rule.rate)),
+  };
+}
+
+/**
+ * Computes the capital gains tax (IR) month by month. Swing trades are taxed
+ * at 15%, with stock gains (not ETFs or BDRs) exempted in months whose gross
+ * stock sales stay within R$ 20.000; day trades and FII sales are taxed at
+ * 20% with no exemption. Each bucket carries its own losses forward, and
+ * taxes below the DARF minimum are added to the next month's payment.
+ */
+export function calculateMonthlyTax(sales: Sale[]): MonthlyTax[] {
+  const salesByMonth: { [month: string]: Sale[] } = {};
+  sales.filter(sale => taxBucketFor(sale)).forEach(sale => {
+    const month = monthKey(sale.date);
+    if (!salesByMonth[month]) salesByMonth[month] = [];
+    salesByMonth[month].push(sale);
+  });
+
+  const accumulatedLosses = Object.fromEntries(TAX_BUCKETS.map(bucket => [bucket, 0])) as { [key in TaxBucket]: number };
+  let pendingTax = 0;
+
+  return Object.keys(salesByMonth).sort().map(month => {
+    const buckets = Object.fromEntries(TAX_BUCKETS.map(bucket => {
+      const bucketSales = salesByMonth[month].filter(sale => taxBucketFor(sale) === bucket);
+      const bucketTax = calculateBucketTax(bucket, bucketSales, accumulatedLosses[bucket]);
+      accumulatedLosses[bucket] = bucketTax.lossCarriedOut;
+      return [bucket, bucketTax];
+    })) as { [key in TaxBucket]: BucketTax };
+
+    const bucketList = Object.values(buckets);
+    const taxDue = sumBy(bucketList, b => b.taxDue);
+    const pendingTaxCarriedIn = pendingTax;
+    const total = sum([taxDue, pendingTax]);
+    const amountPayable = total >= MINIMUM_DARF_AMOUNT ? total : 0;
+    pendingTax = subtract(total, amountPayable);
+
+    return {
+      month,
+      buckets,
+      grossSales: sumBy(bucketList, b => b.grossSales),
+      lossCompensated: sumBy(bucketList, b => b.lossCompensated),
+      taxableResult: sumBy(bucketList, b => b.taxableResult),
+      taxDue,
+      pendingTaxCarriedIn,
+      amountPayable,
+      darf: amountPayable > 0
+        ? { code: DARF_CODE, referenceMonth: month, dueDate: darfDueDate(month), amount: amountPayable }
+        : null,
+    };
+  });
+}
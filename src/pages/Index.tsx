@@ -1,6 +1,7 @@
-import { useEffect, useState } from "react";
+import { useEffect, useMemo, useState } from "react";
 import { useNavigate } from "react-router-dom";
 import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
 import { Session } from "@supabase/supabase-js";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Button } from "@/components/ui/button";
@@ -8,20 +9,63 @@ import { LogOut, TrendingUp } from "lucide-react";
 import ThemeToggle from "@/components/ThemeToggle";
 import ProfileDialog from "@/components/ProfileDialog";
 import PortfolioSummary from "@/components/PortfolioSummary";
+import PortfolioEvolutionChart from "@/components/PortfolioEvolutionChart";
 import TransactionForm from "@/components/TransactionForm";
 import TransactionList from "@/components/TransactionList";
 import DividendForm from "@/components/DividendForm";
 import DividendList from "@/components/DividendList";
 import HistoryList from "@/components/HistoryList";
+import FeeSummary from "@/components/FeeSummary";
+import TaxReport from "@/components/TaxReport";
+import AssetClassList from "@/components/AssetClassList";
+import CorporateEventForm from "@/components/CorporateEventForm";
+import CorporateEventList from "@/components/CorporateEventList";
+import TrashBin from "@/components/TrashBin";
+import BrokerageNoteImport from "@/components/BrokerageNoteImport";
+import B3Import from "@/components/B3Import";
+import CsvImport from "@/components/CsvImport";
 import { useToast } from "@/hooks/use-toast";
+import {
+  AssetClassMap,
+  buildPortfolio,
+  CorporateEventInput,
+  CostBasisMethod,
+  DEFAULT_COST_BASIS_METHOD,
+  DEFAULT_QUANTITY_PRECISION,
+  isAssetClass,
+  isCorporateEventType,
+  isCostBasisMethod,
+  QuantityPrecision,
+  resolveQuantityPrecision,
+} from "@/lib/portfolio";
 
 const Index = () => {
   const [session, setSession] = useState<Session | null>(null);
   const [transactions, setTransactions] = useState<any[]>([]);
   const [dividends, setDividends] = useState<any[]>([]);
+  const [corporateEvents, setCorporateEvents] = useState<Tables<"corporate_events">[]>([]);
+  const [assetClasses, setAssetClasses] = useState<AssetClassMap>({});
+  const [costBasisMethod, setCostBasisMethod] = useState<CostBasisMethod>(DEFAULT_COST_BASIS_METHOD);
+  const [quantityPrecision, setQuantityPrecision] = useState<QuantityPrecision>(DEFAULT_QUANTITY_PRECISION);
   const [loading, setLoading] = useState(true);
   const navigate = useNavigate();
   const { toast } = useToast();
+  // The generated types read event_type as text; the column's CHECK constraint keeps it to the known types
+  const portfolioEvents = useMemo(
+    () => corporateEvents.filter(
+      (event): event is Tables<"corporate_events"> & CorporateEventInput => isCorporateEventType(event.event_type),
+    ),
+    [corporateEvents],
+  );
+  const portfolio = useMemo(
+    () => buildPortfolio(transactions, dividends, {
+      costBasisMethod,
+      assetClasses,
+      corporateEvents: portfolioEvents,
+      quantityPrecision,
+    }),
+    [transactions, dividends, costBasisMethod, assetClasses, portfolioEvents, quantityPrecision],
+  );
 
   useEffect(() => {
     supabase.auth.getSession().then(({ data: { session } }) => {
@@ -50,6 +94,7 @@ const Index = () => {
       const { data, error } = await supabase
         .from("transactions")
         .select("*")
+        .is("deleted_at", null)
         .order("transaction_date", { ascending: false });
 
       if (error) throw error;
@@ -70,20 +115,82 @@ const Index = () => {
       const { data, error } = await supabase
         .from("dividends")
         .select("*")
+        .is("deleted_at", null)
         .order("dividend_date", { ascending: false });
 
       if (error) throw error;
       setDividends(data || []);
     } catch (error: any) {
       toast({
-        title: "Erro ao carregar dividendos",
+        title: "Erro ao carregar proventos",
         description: error.message,
         variant: "destructive",
       });
     }
   };
 
+  const fetchCorporateEvents = async () => {
+    try {
+      const { data, error } = await supabase
+        .from("corporate_events")
+        .select("*")
+        .order("event_date", { ascending: false });
+
+      if (error) throw error;
+      setCorporateEvents(data || []);
+    } catch (error: any) {
+      toast({
+        title: "Erro ao carregar eventos",
+        description: error.message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const fetchAssets = async () => {
+    try {
+      const { data, error } = await supabase.from("assets").select("ticker, asset_class");
+
+      if (error) throw error;
+      const classes: AssetClassMap = {};
+      (data || []).forEach(asset => {
+        if (isAssetClass(asset.asset_class)) classes[asset.ticker] = asset.asset_class;
+      });
+      setAssetClasses(classes);
+    } catch (error: any) {
+      toast({
+        title: "Erro ao carregar ativos",
+        description: error.message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const fetchProfile = async () => {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return;
+
+      const { data, error } = await supabase
+        .from("profiles")
+        .select("cost_basis_method, quantity_precision")
+        .eq("id", user.id)
+        .single();
+
+      if (error) throw error;
+      if (isCostBasisMethod(data.cost_basis_method)) {
+        setCostBasisMethod(data.cost_basis_method);
+      }
+      setQuantityPrecision(resolveQuantityPrecision(data.quantity_precision));
+    } catch (error: any) {
+      console.error("Error fetching profile:", error);
+    }
+  };
+
   const fetchAllData = () => {
+    fetchProfile();
+    fetchAssets();
+    fetchCorporateEvents();
     fetchTransactions();
     fetchDividends();
   };
@@ -111,7 +218,7 @@ const Index = () => {
           </div>
           <div className="flex items-center gap-2">
             <ThemeToggle />
-            <ProfileDialog />
+            <ProfileDialog onProfileUpdate={fetchProfile} onDataRestore={fetchAllData} />
             <Button variant="outline" onClick={handleLogout}>
               <LogOut className="h-4 w-4 mr-2" />
               Sair
@@ -120,35 +227,107 @@ const Index = () => {
         </div>
 
         <Tabs defaultValue="portfolio" className="space-y-4">
-          <TabsList className="grid w-full grid-cols-5">
+          <TabsList className="grid w-full grid-cols-9">
             <TabsTrigger value="portfolio">Carteira</TabsTrigger>
             <TabsTrigger value="buy">Compras</TabsTrigger>
             <TabsTrigger value="sell">Vendas</TabsTrigger>
-            <TabsTrigger value="dividends">Dividendos</TabsTrigger>
+            <TabsTrigger value="dividends">Proventos</TabsTrigger>
+            <TabsTrigger value="events">Eventos</TabsTrigger>
             <TabsTrigger value="history">Histórico</TabsTrigger>
+            <TabsTrigger value="taxes">Impostos</TabsTrigger>
+            <TabsTrigger value="import">Importar</TabsTrigger>
+            <TabsTrigger value="trash">Lixeira</TabsTrigger>
           </TabsList>
 
           <TabsContent value="portfolio" className="space-y-4">
-            <PortfolioSummary transactions={transactions} dividends={dividends} />
+            <PortfolioSummary portfolio={portfolio} onAssetsChange={fetchAssets} />
+            <PortfolioEvolutionChart
+              portfolio={portfolio}
+              transactions={transactions}
+              dividends={dividends}
+              corporateEvents={portfolioEvents}
+            />
           </TabsContent>
 
           <TabsContent value="buy" className="space-y-4">
-            <TransactionForm type="buy" onSuccess={fetchAllData} />
-            <TransactionList transactions={transactions} type="buy" onDelete={fetchAllData} />
+            <div className="flex justify-end">
+              <CsvImport kind="buy" portfolio={portfolio} onSuccess={fetchAllData} />
+            </div>
+            <TransactionForm
+              type="buy"
+              portfolio={portfolio}
+              transactions={transactions}
+              corporateEvents={portfolioEvents}
+              onSuccess={fetchAllData}
+            />
+            <TransactionList
+              transactions={transactions}
+              type="buy"
+              portfolio={portfolio}
+              corporateEvents={portfolioEvents}
+              dayTradeTransactionIds={portfolio.dayTradeTransactionIds}
+              onDelete={fetchAllData}
+              onUpdate={fetchAllData}
+            />
           </TabsContent>
 
           <TabsContent value="sell" className="space-y-4">
-            <TransactionForm type="sell" onSuccess={fetchAllData} />
-            <TransactionList transactions={transactions} type="sell" onDelete={fetchAllData} />
+            <div className="flex justify-end">
+              <CsvImport kind="sell" portfolio={portfolio} onSuccess={fetchAllData} />
+            </div>
+            <TransactionForm
+              type="sell"
+              portfolio={portfolio}
+              transactions={transactions}
+              corporateEvents={portfolioEvents}
+              onSuccess={fetchAllData}
+            />
+            <TransactionList
+              transactions={transactions}
+              type="sell"
+              portfolio={portfolio}
+              corporateEvents={portfolioEvents}
+              dayTradeTransactionIds={portfolio.dayTradeTransactionIds}
+              onDelete={fetchAllData}
+              onUpdate={fetchAllData}
+            />
           </TabsContent>
 
           <TabsContent value="dividends" className="space-y-4">
+            <div className="flex justify-end">
+              <CsvImport kind="dividend" portfolio={portfolio} onSuccess={fetchAllData} />
+            </div>
             <DividendForm onSuccess={fetchAllData} />
-            <DividendList dividends={dividends} onDelete={fetchAllData} />
+            <DividendList dividends={dividends} onDelete={fetchAllData} onUpdate={fetchAllData} />
+          </TabsContent>
+
+          <TabsContent value="events" className="space-y-4">
+            <CorporateEventForm onSuccess={fetchAllData} />
+            <CorporateEventList events={corporateEvents} onDelete={fetchAllData} />
           </TabsContent>
 
           <TabsContent value="history" className="space-y-4">
-            <HistoryList transactions={transactions} dividends={dividends} />
+            <HistoryList portfolio={portfolio} />
+            <FeeSummary transactions={transactions} />
+          </TabsContent>
+
+          <TabsContent value="taxes" className="space-y-4">
+            <TaxReport portfolio={portfolio} />
+            <AssetClassList portfolio={portfolio} onAssetsChange={fetchAssets} />
+          </TabsContent>
+
+          <TabsContent value="import" className="space-y-4">
+            <BrokerageNoteImport transactions={transactions} portfolio={portfolio} onSuccess={fetchAllData} />
+            <B3Import
+              transactions={transactions}
+              dividends={dividends}
+              portfolio={portfolio}
+              onSuccess={fetchAllData}
+            />
+          </TabsContent>
+
+          <TabsContent value="trash" className="space-y-4">
+            <TrashBin onRestore={fetchAllData} />
           </TabsContent>
         </Tabs>
       </div>
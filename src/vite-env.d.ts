@@ -1 +1,9 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  // Quote provider: "supabase" (default), "brapi", "alphavantage" or "mock"
+  readonly VITE_QUOTE_PROVIDER?: string;
+  // Brapi-compatible host, e.g. the fixture server started by `npm run quotes:fixtures`
+  readonly VITE_BRAPI_URL?: string;
+  readonly VITE_ALPHA_VANTAGE_KEY?: string;
+}
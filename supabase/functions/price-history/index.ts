@@ -0,0 +1,155 @@
+// Backfills and updates price_history from Brapi with the BRAPI_TOKEN secret.
+// A ticker is backfilled once from the requested day (its first trade) and
+// from then on only the days after its latest stored bar are fetched, at
+// most once per day. Prices are shared by every user. Besides the app, a
+// nightly job (migration 20251224120000_price_history_schedule.sql) calls it
+// for every stored ticker.
+//
+// POST { "tickers": [{ "ticker": "PETR4", "from": "2021-03-15" }] }
+// -> { "synced": [{ "ticker", "bars" }], "failed": [{ "ticker", "error" }] }
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+const BRAPI_URL = "https://brapi.dev";
+const DAY_MS = 1000 * 60 * 60 * 24;
+const MAX_TICKERS = 50;
+
+const TICKER_PATTERN = /^[A-Z0-9]{4,12}$/;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// History ranges Brapi accepts, with the days each one covers
+const BRAPI_RANGES: [string, number][] = [
+  ["5d", 5],
+  ["1mo", 31],
+  ["3mo", 92],
+  ["6mo", 183],
+  ["1y", 366],
+  ["2y", 731],
+  ["5y", 1827],
+  ["10y", 3653],
+];
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+interface HistoryRequest {
+  ticker: string;
+  from: string;
+}
+
+interface BrapiBar {
+  date: number;
+  open?: number | null;
+  high?: number | null;
+  low?: number | null;
+  close?: number | null;
+  adjustedClose?: number | null;
+  volume?: number | null;
+}
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { ...corsHeaders, "Content-Type": "application/json" } });
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+async function fetchBars(ticker: string, from: string) {
+  const days = Math.ceil((Date.now() - new Date(`${from}T00:00:00Z`).getTime()) / DAY_MS);
+  const url = new URL(`${BRAPI_URL}/api/quote/${ticker}`);
+  url.searchParams.set("range", BRAPI_RANGES.find(([, rangeDays]) => days <= rangeDays)?.[0] || "max");
+  url.searchParams.set("interval", "1d");
+  const token = Deno.env.get("BRAPI_TOKEN");
+  if (token) url.searchParams.set("token", token);
+
+  const response = await fetch(url);
+  if (!response.ok) throw new Error(`Brapi respondeu ${response.status}`);
+
+  const data: { results?: { historicalDataPrice?: BrapiBar[] }[] } = await response.json();
+  return (data.results?.[0]?.historicalDataPrice || [])
+    .filter(bar => typeof bar.close === "number")
+    .map(bar => ({
+      ticker,
+      date: new Date(bar.date * 1000).toISOString().slice(0, 10),
+      open: bar.open ?? null,
+      high: bar.high ?? null,
+      low: bar.low ?? null,
+      close: bar.close!,
+      adjusted_close: bar.adjustedClose ?? null,
+      volume: bar.volume ?? null,
+    }))
+    .filter(bar => bar.date >= from);
+}
+
+Deno.serve(async (request) => {
+  if (request.method === "OPTIONS") return new Response("ok", { headers: corsHeaders });
+  if (request.method !== "POST") return json({ error: "Método não suportado" }, 405);
+
+  let requests: HistoryRequest[];
+  try {
+    const body = await request.json();
+    requests = (body.tickers as HistoryRequest[]).map(({ ticker, from }) => ({
+      ticker: String(ticker).trim().toUpperCase(),
+      from: String(from),
+    }));
+  } catch {
+    return json({ error: "Informe os ativos em { tickers: [{ ticker, from }] }" }, 400);
+  }
+  if (
+    requests.length === 0 || requests.length > MAX_TICKERS
+    || !requests.every(({ ticker, from }) => TICKER_PATTERN.test(ticker) && DATE_PATTERN.test(from))
+  ) {
+    return json({ error: `Informe de 1 a ${MAX_TICKERS} ativos com a data inicial (aaaa-mm-dd)` }, 400);
+  }
+
+  // The function is deployed with JWT verification, so only signed-in users and the nightly job reach this point
+  const supabase = createClient(Deno.env.get("SUPABASE_URL")!, Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!);
+
+  const { data: syncs, error } = await supabase
+    .from("price_history_syncs")
+    .select("*")
+    .in("ticker", requests.map(({ ticker }) => ticker));
+  if (error) return json({ error: error.message }, 500);
+
+  const synced: { ticker: string; bars: number }[] = [];
+  const failed: { ticker: string; error: string }[] = [];
+
+  for (const { ticker, from } of requests) {
+    const sync = syncs.find(row => row.ticker === ticker);
+    const backfill = !sync || sync.covered_from > from;
+    if (!backfill && sync.synced_at.slice(0, 10) === today()) continue;
+
+    try {
+      let start = from;
+      if (!backfill) {
+        // Refetching the latest stored day picks up a close that was still moving when it was stored
+        const { data: latest } = await supabase
+          .from("price_history")
+          .select("date")
+          .eq("ticker", ticker)
+          .order("date", { ascending: false })
+          .limit(1)
+          .maybeSingle();
+        start = latest?.date || sync.covered_from;
+      }
+
+      const bars = await fetchBars(ticker, start);
+      if (bars.length > 0) {
+        const { error: barsError } = await supabase.from("price_history").upsert(bars);
+        if (barsError) throw barsError;
+      }
+
+      const { error: syncError } = await supabase.from("price_history_syncs").upsert({
+        ticker,
+        covered_from: backfill ? from : sync.covered_from,
+        synced_at: new Date().toISOString(),
+      });
+      if (syncError) throw syncError;
+
+      synced.push({ ticker, bars: bars.length });
+    } catch (syncFailure) {
+      failed.push({ ticker, error: (syncFailure as Error).message });
+    }
+  }
+
+  return json({ synced, failed });
+});
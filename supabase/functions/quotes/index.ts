@@ -0,0 +1,141 @@
+// Proxies quote requests to Brapi with the BRAPI_TOKEN secret, so the token
+// never reaches the browser, and caches every quote in quotes_cache where all
+// users share it.
+//
+// POST { "tickers": ["PETR4", "VALE3"] }
+// -> { "results": [{ "ticker", "price", "currency", "marketTime", "fetchedAt" }] }
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+const BRAPI_URL = "https://brapi.dev";
+
+// Cached quotes younger than this are served without asking Brapi
+const CACHE_TTL_MS = 15 * 60 * 1000;
+
+// Tickers per Brapi request on token plans, and per call to this function
+const BRAPI_MAX_TICKERS = 20;
+const MAX_TICKERS = 100;
+
+const TICKER_PATTERN = /^[A-Z0-9]{4,12}$/;
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+interface CachedQuote {
+  ticker: string;
+  price: number;
+  currency: string;
+  market_time: string | null;
+  fetched_at: string;
+}
+
+interface BrapiQuote {
+  symbol: string;
+  regularMarketPrice?: number | null;
+  regularMarketTime?: string | null;
+  currency?: string | null;
+}
+
+class UpstreamError extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message);
+  }
+}
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { ...corsHeaders, "Content-Type": "application/json" } });
+
+const toResult = (quote: CachedQuote) => ({
+  ticker: quote.ticker,
+  price: Number(quote.price),
+  currency: quote.currency,
+  marketTime: quote.market_time,
+  fetchedAt: quote.fetched_at,
+});
+
+async function fetchFromBrapi(tickers: string[]): Promise<CachedQuote[]> {
+  const token = Deno.env.get("BRAPI_TOKEN");
+  const fetchedAt = new Date().toISOString();
+  const quotes: CachedQuote[] = [];
+
+  for (let i = 0; i < tickers.length; i += BRAPI_MAX_TICKERS) {
+    const chunk = tickers.slice(i, i + BRAPI_MAX_TICKERS);
+    const url = new URL(`${BRAPI_URL}/api/quote/${chunk.join(",")}`);
+    if (token) url.searchParams.set("token", token);
+
+    const response = await fetch(url);
+    // An unknown ticker fails the whole request; with more than one, ask again one by one
+    if (response.status === 404 && chunk.length > 1) {
+      for (const ticker of chunk) {
+        quotes.push(...await fetchFromBrapi([ticker]).catch(() => []));
+      }
+      continue;
+    }
+    if (response.status === 404) continue;
+    if (!response.ok) throw new UpstreamError("Erro ao buscar cotações na Brapi", response.status);
+
+    const data: { results?: BrapiQuote[] } = await response.json();
+    (data.results || []).forEach(result => {
+      if (typeof result.regularMarketPrice !== "number") return;
+      quotes.push({
+        ticker: result.symbol,
+        price: result.regularMarketPrice,
+        currency: result.currency || "BRL",
+        market_time: result.regularMarketTime || null,
+        fetched_at: fetchedAt,
+      });
+    });
+  }
+
+  return quotes;
+}
+
+Deno.serve(async (request) => {
+  if (request.method === "OPTIONS") return new Response("ok", { headers: corsHeaders });
+  if (request.method !== "POST") return json({ error: "Método não suportado" }, 405);
+
+  let tickers: string[];
+  try {
+    const body = await request.json();
+    tickers = [...new Set((body.tickers as unknown[]).map(ticker => String(ticker).trim().toUpperCase()))];
+  } catch {
+    return json({ error: "Informe os ativos em { tickers: [...] }" }, 400);
+  }
+  if (tickers.length === 0 || tickers.length > MAX_TICKERS || !tickers.every(ticker => TICKER_PATTERN.test(ticker))) {
+    return json({ error: `Informe de 1 a ${MAX_TICKERS} códigos de ativos válidos` }, 400);
+  }
+
+  // The function is deployed with JWT verification, so only signed-in users reach this point
+  const supabase = createClient(Deno.env.get("SUPABASE_URL")!, Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!);
+
+  const { data: cached, error } = await supabase.from("quotes_cache").select("*").in("ticker", tickers);
+  if (error) return json({ error: error.message }, 500);
+
+  const cachedByTicker = new Map((cached as CachedQuote[]).map(quote => [quote.ticker, quote]));
+  const isFresh = (quote: CachedQuote | undefined) =>
+    !!quote && Date.now() - new Date(quote.fetched_at).getTime() < CACHE_TTL_MS;
+  const missing = tickers.filter(ticker => !isFresh(cachedByTicker.get(ticker)));
+
+  if (missing.length > 0) {
+    try {
+      const fetched = await fetchFromBrapi(missing);
+      if (fetched.length > 0) {
+        const { error: upsertError } = await supabase.from("quotes_cache").upsert(fetched);
+        if (upsertError) console.error("quotes_cache upsert failed", upsertError.message);
+      }
+      fetched.forEach(quote => cachedByTicker.set(quote.ticker, quote));
+    } catch (upstreamError) {
+      // Stale quotes are better than none; without any, the client sees
+      // Brapi's status (a 429 makes it back off)
+      const status = upstreamError instanceof UpstreamError ? upstreamError.status : 502;
+      if (!missing.some(ticker => cachedByTicker.has(ticker))) {
+        return json({ error: (upstreamError as Error).message }, status);
+      }
+    }
+  }
+
+  return json({
+    results: tickers.filter(ticker => cachedByTicker.has(ticker)).map(ticker => toResult(cachedByTicker.get(ticker)!)),
+  });
+});
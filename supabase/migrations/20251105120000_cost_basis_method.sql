@@ -0,0 +1,9 @@
+-- Per-user cost basis method used by the portfolio engine
+ALTER TABLE public.profiles
+  ADD COLUMN cost_basis_method TEXT NOT NULL DEFAULT 'average'
+  CHECK (cost_basis_method IN ('average', 'fifo', 'specific'));
+
+-- Buy lots chosen for a sale when using specific lot identification
+-- Format: [{ "transaction_id": "<buy id>", "quantity": 100 }]
+ALTER TABLE public.transactions
+  ADD COLUMN lot_selections JSONB;
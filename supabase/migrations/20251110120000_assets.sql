@@ -0,0 +1,33 @@
+-- Create assets table holding the asset class of each ticker a user trades
+CREATE TABLE public.assets (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  ticker TEXT NOT NULL,
+  asset_class TEXT NOT NULL CHECK (asset_class IN ('stock', 'fii', 'etf', 'bdr')),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (user_id, ticker)
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.assets ENABLE ROW LEVEL SECURITY;
+
+-- Create policies for assets
+CREATE POLICY "Users can view their own assets"
+ON public.assets
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own assets"
+ON public.assets
+FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own assets"
+ON public.assets
+FOR UPDATE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own assets"
+ON public.assets
+FOR DELETE
+USING (auth.uid() = user_id);
@@ -0,0 +1,41 @@
+-- Create corporate_events table for splits, reverse splits and bonus shares
+-- A ratio of ratio_from -> ratio_to means every ratio_from shares held become
+-- ratio_to shares (split/reverse split) or receive ratio_to new shares (bonus)
+CREATE TABLE public.corporate_events (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  ticker TEXT NOT NULL,
+  event_type TEXT NOT NULL CHECK (event_type IN ('split', 'reverse_split', 'bonus')),
+  event_date TIMESTAMP WITH TIME ZONE NOT NULL,
+  ratio_from NUMERIC NOT NULL CHECK (ratio_from > 0),
+  ratio_to NUMERIC NOT NULL CHECK (ratio_to > 0),
+  unit_cost NUMERIC,
+  notes TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.corporate_events ENABLE ROW LEVEL SECURITY;
+
+-- Create policies for corporate events
+CREATE POLICY "Users can view their own corporate events"
+ON public.corporate_events
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own corporate events"
+ON public.corporate_events
+FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own corporate events"
+ON public.corporate_events
+FOR UPDATE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own corporate events"
+ON public.corporate_events
+FOR DELETE
+USING (auth.uid() = user_id);
+
+CREATE INDEX idx_corporate_events_user_id ON public.corporate_events(user_id);
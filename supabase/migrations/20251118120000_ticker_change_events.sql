@@ -0,0 +1,16 @@
+-- Allow corporate events that move a position to a new ticker
+ALTER TABLE public.corporate_events
+  DROP CONSTRAINT corporate_events_event_type_check;
+
+ALTER TABLE public.corporate_events
+  ADD CONSTRAINT corporate_events_event_type_check
+  CHECK (event_type IN ('split', 'reverse_split', 'bonus', 'ticker_change', 'merger'));
+
+-- Ticker the position moves to, and cash paid per old share in a merger
+ALTER TABLE public.corporate_events
+  ADD COLUMN new_ticker TEXT,
+  ADD COLUMN cash_per_share NUMERIC;
+
+ALTER TABLE public.corporate_events
+  ADD CONSTRAINT corporate_events_new_ticker_check
+  CHECK (event_type NOT IN ('ticker_change', 'merger') OR new_ticker IS NOT NULL);
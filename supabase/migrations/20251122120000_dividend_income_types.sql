@@ -0,0 +1,12 @@
+-- Distinguish dividends, JCP and FII distributions, with gross and withheld amounts
+-- amount keeps holding the net value actually received
+ALTER TABLE public.dividends
+  ADD COLUMN income_type TEXT NOT NULL DEFAULT 'dividend'
+    CHECK (income_type IN ('dividend', 'jcp', 'fii_income')),
+  ADD COLUMN gross_amount NUMERIC,
+  ADD COLUMN withholding_tax NUMERIC NOT NULL DEFAULT 0 CHECK (withholding_tax >= 0);
+
+UPDATE public.dividends SET gross_amount = amount WHERE gross_amount IS NULL;
+
+ALTER TABLE public.dividends
+  ALTER COLUMN gross_amount SET NOT NULL;
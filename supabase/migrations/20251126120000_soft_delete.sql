@@ -0,0 +1,6 @@
+-- Soft delete for transactions and dividends: rows stay in the trash until restored or purged
+ALTER TABLE public.transactions ADD COLUMN deleted_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE public.dividends ADD COLUMN deleted_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX idx_transactions_deleted_at ON public.transactions(user_id, deleted_at);
+CREATE INDEX idx_dividends_deleted_at ON public.dividends(user_id, deleted_at);
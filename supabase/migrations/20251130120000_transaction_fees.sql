@@ -0,0 +1,6 @@
+-- Trading costs per transaction; total_value stays the gross trade value (quantity x price)
+ALTER TABLE public.transactions
+  ADD COLUMN brokerage_fee NUMERIC NOT NULL DEFAULT 0 CHECK (brokerage_fee >= 0),
+  ADD COLUMN exchange_fee NUMERIC NOT NULL DEFAULT 0 CHECK (exchange_fee >= 0),
+  ADD COLUMN settlement_fee NUMERIC NOT NULL DEFAULT 0 CHECK (settlement_fee >= 0),
+  ADD COLUMN other_fees NUMERIC NOT NULL DEFAULT 0 CHECK (other_fees >= 0);
@@ -0,0 +1,15 @@
+-- Fund quotas, crypto and reinvested units are held in fractions
+ALTER TABLE public.transactions
+  ALTER COLUMN quantity TYPE NUMERIC(24, 8),
+  ALTER COLUMN price_per_share TYPE NUMERIC(20, 8);
+
+-- Investment funds and crypto assets, outside B3's listed classes
+ALTER TABLE public.assets DROP CONSTRAINT assets_asset_class_check;
+ALTER TABLE public.assets
+  ADD CONSTRAINT assets_asset_class_check
+  CHECK (asset_class IN ('stock', 'fii', 'etf', 'bdr', 'fund', 'crypto'));
+
+-- Decimal places allowed in quantities, per asset class; classes left out use the app defaults
+-- Format: { "fii": 2, "crypto": 8 }
+ALTER TABLE public.profiles
+  ADD COLUMN quantity_precision JSONB NOT NULL DEFAULT '{}'::jsonb;
@@ -0,0 +1,19 @@
+-- Latest quote per ticker, written by the quotes Edge Function and shared by every user
+CREATE TABLE public.quotes_cache (
+  ticker TEXT NOT NULL PRIMARY KEY,
+  price NUMERIC(20, 8) NOT NULL CHECK (price >= 0),
+  currency TEXT NOT NULL DEFAULT 'BRL',
+  market_time TIMESTAMP WITH TIME ZONE,
+  fetched_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.quotes_cache ENABLE ROW LEVEL SECURITY;
+
+-- Quotes are public market data: any signed-in user may read them, while only
+-- the Edge Function (using the service role, which bypasses RLS) writes them
+CREATE POLICY "Authenticated users can view cached quotes"
+ON public.quotes_cache
+FOR SELECT
+TO authenticated
+USING (true);
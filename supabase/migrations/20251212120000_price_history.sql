@@ -0,0 +1,37 @@
+-- Daily prices per ticker, filled by the price-history Edge Function and shared by every user
+CREATE TABLE public.price_history (
+  ticker TEXT NOT NULL,
+  date DATE NOT NULL,
+  open NUMERIC(20, 8),
+  high NUMERIC(20, 8),
+  low NUMERIC(20, 8),
+  close NUMERIC(20, 8) NOT NULL CHECK (close >= 0),
+  adjusted_close NUMERIC(20, 8),
+  volume BIGINT,
+  PRIMARY KEY (ticker, date)
+);
+
+-- How far back each ticker's history has been backfilled and when it was last brought up to date.
+-- Kept apart from the bars because a ticker listed after covered_from has no bars that early.
+CREATE TABLE public.price_history_syncs (
+  ticker TEXT NOT NULL PRIMARY KEY,
+  covered_from DATE NOT NULL,
+  synced_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.price_history ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.price_history_syncs ENABLE ROW LEVEL SECURITY;
+
+-- Market data is readable by any signed-in user; only the Edge Function (service role) writes it
+CREATE POLICY "Authenticated users can view price history"
+ON public.price_history
+FOR SELECT
+TO authenticated
+USING (true);
+
+CREATE POLICY "Authenticated users can view price history syncs"
+ON public.price_history_syncs
+FOR SELECT
+TO authenticated
+USING (true);
@@ -0,0 +1,61 @@
+-- Restores a backup archive into the caller's account. Runs as one statement,
+-- so a row the tables reject rolls back the whole restore, including the
+-- deletes of a "replace" restore. RLS still applies (SECURITY INVOKER).
+-- p_tables: { "assets": [...], "corporate_events": [...], "transactions": [...], "dividends": [...] }
+CREATE OR REPLACE FUNCTION public.restore_backup(p_mode TEXT, p_profile JSONB, p_tables JSONB)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  -- Restore order: corporate events and transactions may refer to assets restored before them
+  restore_tables TEXT[] := ARRAY['assets', 'corporate_events', 'transactions', 'dividends'];
+  restore_table TEXT;
+  row_data JSONB;
+  column_list TEXT;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+  IF p_mode NOT IN ('merge', 'replace') THEN
+    RAISE EXCEPTION 'Unknown restore mode: %', p_mode;
+  END IF;
+
+  IF p_mode = 'replace' THEN
+    DELETE FROM public.dividends WHERE user_id = auth.uid();
+    DELETE FROM public.transactions WHERE user_id = auth.uid();
+    DELETE FROM public.corporate_events WHERE user_id = auth.uid();
+    DELETE FROM public.assets WHERE user_id = auth.uid();
+
+    UPDATE public.profiles
+    SET
+      cost_basis_method = COALESCE(p_profile ->> 'cost_basis_method', cost_basis_method),
+      quantity_precision = COALESCE(p_profile -> 'quantity_precision', quantity_precision)
+    WHERE id = auth.uid();
+  END IF;
+
+  FOREACH restore_table IN ARRAY restore_tables LOOP
+    FOR row_data IN SELECT value FROM jsonb_array_elements(COALESCE(p_tables -> restore_table, '[]'::jsonb)) LOOP
+      row_data := row_data || jsonb_build_object('user_id', auth.uid());
+
+      -- Only the columns the row carries are written: columns added after the
+      -- backup was made keep their defaults, and unknown keys are ignored
+      SELECT string_agg(quote_ident(c.column_name), ', ')
+      INTO column_list
+      FROM information_schema.columns c
+      WHERE c.table_schema = 'public' AND c.table_name = restore_table AND row_data ? c.column_name;
+
+      -- Merging keeps what is already stored: rows with the same id (or asset ticker) are skipped
+      EXECUTE format(
+        'INSERT INTO public.%I (%s) SELECT %s FROM jsonb_populate_record(NULL::public.%I, $1)%s',
+        restore_table,
+        column_list,
+        column_list,
+        restore_table,
+        CASE WHEN p_mode = 'merge' THEN ' ON CONFLICT DO NOTHING' ELSE '' END
+      ) USING row_data;
+    END LOOP;
+  END LOOP;
+END;
+$$;
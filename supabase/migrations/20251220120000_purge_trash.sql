@@ -0,0 +1,12 @@
+-- Purges the trash on the server: transactions and dividends deleted more than
+-- 30 days ago are removed for good every night, whether or not anyone opens the trash
+CREATE EXTENSION IF NOT EXISTS pg_cron WITH SCHEMA pg_catalog;
+
+SELECT cron.schedule(
+  'purge-trash',
+  '0 3 * * *',
+  $$
+  DELETE FROM public.transactions WHERE deleted_at < now() - INTERVAL '30 days';
+  DELETE FROM public.dividends WHERE deleted_at < now() - INTERVAL '30 days';
+  $$
+);
@@ -0,0 +1,48 @@
+-- Brings every stored ticker's price history up to date each weekday night,
+-- after the B3 close, so charts open with the latest bars already stored.
+-- Tickers are sent to the price-history function 50 at a time, its limit per call.
+-- The job reads the project URL and service role key from Vault:
+--   SELECT vault.create_secret('https://<project>.supabase.co', 'project_url');
+--   SELECT vault.create_secret('<service role key>', 'service_role_key');
+CREATE EXTENSION IF NOT EXISTS pg_cron WITH SCHEMA pg_catalog;
+CREATE EXTENSION IF NOT EXISTS pg_net WITH SCHEMA extensions;
+
+CREATE OR REPLACE FUNCTION public.sync_price_history()
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  function_url TEXT;
+  service_role_key TEXT;
+  batch JSONB;
+BEGIN
+  SELECT decrypted_secret || '/functions/v1/price-history' INTO function_url
+  FROM vault.decrypted_secrets WHERE name = 'project_url';
+  SELECT decrypted_secret INTO service_role_key
+  FROM vault.decrypted_secrets WHERE name = 'service_role_key';
+
+  -- Asking from covered_from never triggers a new backfill, only the days since the last sync
+  FOR batch IN
+    SELECT jsonb_agg(jsonb_build_object('ticker', ticker, 'from', covered_from))
+    FROM (
+      SELECT ticker, covered_from, (row_number() OVER (ORDER BY ticker) - 1) / 50 AS batch_number
+      FROM public.price_history_syncs
+    ) numbered
+    GROUP BY batch_number
+  LOOP
+    PERFORM net.http_post(
+      url := function_url,
+      headers := jsonb_build_object('Content-Type', 'application/json', 'Authorization', 'Bearer ' || service_role_key),
+      body := jsonb_build_object('tickers', batch),
+      timeout_milliseconds := 60000
+    );
+  END LOOP;
+END;
+$$;
+
+-- Only the scheduled job runs the sync
+REVOKE EXECUTE ON FUNCTION public.sync_price_history() FROM PUBLIC, anon, authenticated;
+
+SELECT cron.schedule('sync-price-history', '0 22 * * 1-5', 'SELECT public.sync_price_history()');